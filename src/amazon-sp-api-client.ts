@@ -29,20 +29,162 @@ export { AmazonSpApiClient } from './client.js';
 export type {
   // Core configuration types
   SpApiClientConfig,
+  RegionalClientConfig,
+  
+  // Marketplace types
+  KnownMarketplaceId,
+  MarketplaceInfo,
+  MarketplaceRegionCheck,
+  MarketplaceValidationContext,
+  RegionEndpoint,
+  SpApiRegion,
+  
+  // Authentication types
+  AccessTokenProvider,
+  LwaCredentials,
+  LwaTokenResponse,
+  SigV4Credentials,
+  
+  // Retry types
+  RetryPolicy,
+  RetryJitter,
+  
+  // Transport types
+  HttpTransport,
+  HttpRequest,
+  HttpResponse,
+  HttpMethod,
+  AxiosHttpTransportOptions,
+  FetchHttpTransportOptions,
+  
+  // Middleware types
+  SpApiMiddleware,
+  SpApiMiddlewareNext,
+  SpApiRequest,
+  
+  // Rate limiting types
+  RateLimiter,
+  RateLimit,
+  RateLimitKey,
+  TokenBucketRateLimiterOptions,
   
   // API parameter types
   SearchListingsItemsQueryParams,
+  GetListingsItemParams,
+  PutListingsItemParams,
+  PatchListingsItemParams,
+  DeleteListingsItemParams,
+  ListingsItemPutRequest,
+  ListingsItemPatchRequest,
+  PatchOperation,
+  SpApiRequestOptions,
+  ListingsIterationOptions,
+  MultiMarketplaceSearchParams,
+  MultiMarketplaceSearchOptions,
+  MultiMarketplaceListingItem,
+  MarketplaceSearchFailure,
+  MultiMarketplaceSearchResult,
+  BulkIdentifierLookupParams,
+  BulkIdentifierLookupOptions,
+  IdentifierChunkFailure,
+  BulkIdentifierLookupResult,
+  SearchDefinitionsProductTypesParams,
+  GetDefinitionsProductTypeParams,
+  
+  // Product type definition types
+  ProductTypeSummary,
+  ProductTypeList,
+  ProductTypeRequirements,
+  ProductTypeRequirementsEnforced,
+  SchemaLink,
+  PropertyGroup,
+  ProductTypeVersion,
+  ProductTypeDefinition,
+  JsonSchema,
+  AttributeValidationOptions,
+  
+  // Issue triage types
+  IssueGroupBy,
+  IssueGroup,
+  ListingSuppression,
+  SuppressedListingItem,
+  SuppressionOptions,
+  IssueSummaryReport,
+  
+  // Mock server types (the server itself is exported from mock-server.js)
+  MockFaultType,
+  MockFault,
+  MockFixture,
+  MockRequestRecord,
+  MockServerMode,
+  MockSpApiServerOptions,
+  
+  // Snapshot diff types
+  ItemAddedChange,
+  ItemRemovedChange,
+  StatusChange,
+  PriceChange,
+  PointsChange,
+  FulfillmentQuantityChange,
+  IssueAddedChange,
+  IssueResolvedChange,
+  AttributeChange,
+  ListingChange,
+  ListingChangeKind,
+  ListingDiffOptions,
+  
+  // Incremental sync types
+  SyncCheckpoint,
+  SyncRunCheckpoint,
+  SyncCheckpointStore,
+  SyncEventType,
+  SyncEvent,
+  ListingsSyncOptions,
+  SyncRunResult,
+  
+  // Export types
+  ExportRowShape,
+  ExportValue,
+  ExportRow,
+  ListingExportOptions,
+  ListingExportResult,
+  TextOutputStream,
+  
+  // Command-line tool types (the tool itself is in cli.js)
+  CliOutputFormat,
+  CliProfile,
+  CliEnvironment,
   
   // API response types
   SearchListingsItemsResponse,
+  ListingsItemSubmissionResponse,
+  ItemIdentifiersByMarketplace,
   ListingItem,
   ItemSummary,
   ItemImage,
   Pagination,
+  AttributeEntry,
+  AttributeEntryOf,
+  AttributePathValue,
+  AttributeSelector,
+  KnownListingAttributes,
+  ListPriceAttribute,
+  PurchasableOfferAttribute,
+  PurchasableOfferPrice,
+  FulfillmentAvailabilityAttribute,
   
   // Error types
   SpApiError,
   SpApiErrorResponse,
+  ValidationErrorDetail,
+  ValidationErrorKind,
+  ResponseValidationMode,
+  
+  // Caching types
+  CacheEntry,
+  CacheStore,
+  CacheMode,
+  ResponseCacheOptions,
   
   // Enum types
   MarketplaceId,
@@ -54,6 +196,15 @@ export type {
   IssueSeverity,
   ListingStatus,
   OfferType,
+  ListingsItemSubmissionStatus,
+  ListingsItemRequirements,
+  SubmissionMode,
+  SubmissionIncludedDataType,
+  PatchOperationType,
+  SearchFilterKind,
+  DateInput,
+  Duration,
+  DateWindowSplitOptions,
   
   // Additional interface types
   Money,
@@ -70,19 +221,215 @@ export type {
   Enforcements
 } from './types.js';
 
+// Export the fluent query builder
+export {
+  ListingsSearchQuery,
+  durationToMs,
+  splitLastUpdatedWindow
+} from './query-builder.js';
+
 // Export validation functions
 export {
   validateSearchParams,
   validateClientConfig,
   validateSearchParamsOrThrow,
-  validateClientConfigOrThrow
+  validateClientConfigOrThrow,
+  validateMultiMarketplaceSearchParams,
+  validateMultiMarketplaceSearchParamsOrThrow,
+  validateBulkIdentifierLookupParams,
+  validateBulkIdentifierLookupParamsOrThrow,
+  validateGetListingsItemParams,
+  validatePutListingsItemParams,
+  validatePatchListingsItemParams,
+  validateDeleteListingsItemParams,
+  validateGetListingsItemParamsOrThrow,
+  validatePutListingsItemParamsOrThrow,
+  validatePatchListingsItemParamsOrThrow,
+  validateDeleteListingsItemParamsOrThrow,
+  validateSearchDefinitionsProductTypesParams,
+  validateGetDefinitionsProductTypeParams,
+  validateSearchDefinitionsProductTypesParamsOrThrow,
+  validateGetDefinitionsProductTypeParamsOrThrow
 } from './validators.js';
 
+// Export response validation and type guards
+export {
+  moneySchema,
+  pointsSchema,
+  itemSummarySchema,
+  listingIssueSchema,
+  offerSchema,
+  fulfillmentAvailabilitySchema,
+  marketplaceRelationshipsSchema,
+  productTypeEntrySchema,
+  listingItemSchema,
+  searchListingsItemsResponseSchema,
+  listingsItemSubmissionResponseSchema,
+  productTypeListSchema,
+  productTypeDefinitionSchema,
+  validateOperationResponse,
+  getResponseValidationError,
+  isMoney,
+  isItemSummary,
+  isListingIssue,
+  isOffer,
+  isFulfillmentAvailability,
+  isMarketplaceRelationships,
+  isProductType,
+  isListingItem,
+  isSearchListingsItemsResponse,
+  isListingsItemSubmissionResponse,
+  isProductTypeList,
+  isProductTypeDefinition
+} from './response-validators.js';
+
+// Export product type schema validation
+export {
+  ProductTypeSchemaValidator,
+  validateListingAttributes
+} from './schema-validator.js';
+
+// Export attribute accessors
+export {
+  getAllAttributeEntries,
+  getAttributeEntries,
+  getAttributeEntry,
+  getAttributeValue,
+  getAttributeValues,
+  getAttributePath,
+  getItemName,
+  getBrand,
+  getBulletPoints,
+  getListPrice,
+  getPurchasableOffer,
+  getOurPrice,
+  getFulfillmentAvailabilityAttributes
+} from './attributes.js';
+
+// Export issue triage
+export {
+  SUPPRESSING_ENFORCEMENT_ACTIONS,
+  groupListingIssues,
+  isSuppressingIssue,
+  getListingSuppression,
+  getSuppressedListingItems,
+  createIssueSummaryReport,
+  issueSummaryReportToCsv
+} from './issues.js';
+
+// Export snapshot diffing
+export {
+  diffListingItems,
+  filterListingChanges
+} from './diff.js';
+
+// Export incremental sync
+export {
+  InMemorySyncCheckpointStore,
+  ListingsSync
+} from './sync.js';
+
+// Export listing item export
+export {
+  EXPORT_COLUMNS,
+  getExportColumns,
+  flattenListingItem,
+  flattenListingItems,
+  writeText,
+  writeListingItemsCsv,
+  writeListingItemsNdjson
+} from './export.js';
+
+// Export CSV formatting
+export {
+  CSV_LINE_SEPARATOR,
+  formatCsvField,
+  formatCsvRow
+} from './csv.js';
+
+// Export multi-marketplace merging
+export { mergeListingItemsByMarketplace } from './marketplace-merge.js';
+
+// Export response caching
+export {
+  InMemoryCacheStore,
+  ResponseCache,
+  createCacheKey
+} from './cache.js';
+
+// Export concurrency utilities
+export { mapWithConcurrency } from './concurrency.js';
+
+// Export marketplace registry
+export {
+  MARKETPLACES,
+  REGION_ENDPOINTS,
+  isKnownMarketplaceId,
+  getMarketplace,
+  getMarketplacesForRegion,
+  getRegionBaseUrl,
+  getRegionForBaseUrl
+} from './marketplaces.js';
+
+// Export identifier validation
+export {
+  isValidAsin,
+  isValidGtin,
+  isValidEan,
+  isValidUpc,
+  isValidJan,
+  isValidIsbn,
+  isValidIsbn10,
+  isValidIsbn13,
+  isValidIdentifier,
+  computeGtinCheckDigit,
+  toGtin14,
+  normalizeIdentifier,
+  getIdentifierFormatError,
+  getIdentifierIncludedData,
+  getListingItemIdentifiers
+} from './identifiers.js';
+
+// Export authentication providers
+export {
+  LwaTokenProvider,
+  DEFAULT_LWA_TOKEN_ENDPOINT
+} from './auth.js';
+
+// Export request signing
+export { SigV4Signer } from './signer.js';
+
+// Export retry utilities
+export {
+  DEFAULT_RETRY_POLICY,
+  isRetryableError,
+  computeRetryDelay,
+  withRetry
+} from './retry.js';
+
+// Export HTTP transports
+export {
+  AxiosHttpTransport,
+  FetchHttpTransport
+} from './transport.js';
+
+// Export rate limiting
+export {
+  TokenBucketRateLimiter,
+  DEFAULT_OPERATION_RATE_LIMITS
+} from './rate-limiter.js';
+
 // Export error classes and utilities
 export {
   SpApiClientError,
+  SpApiValidationError,
+  HttpTransportError,
   getHttpErrorMessage,
-  createSpApiErrorFromAxiosError
+  parseRetryAfter,
+  createSpApiErrorFromResponse,
+  createSpApiErrorFromTransportError,
+  createSpApiErrorFromAxiosError,
+  createSpApiValidationError
 } from './errors.js';
 
 // Also provide a default export for convenience
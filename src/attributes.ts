@@ -0,0 +1,357 @@
+/**
+ * Listing attribute accessors for Amazon SP-API Client
+ * 
+ * This module contains typed accessors for `ListingItem.attributes`, resolving
+ * entries for a marketplace and language with fallback.
+ * 
+ * @group Attributes
+ */
+
+import type {
+  AttributeEntry,
+  AttributeEntryOf,
+  AttributePathValue,
+  AttributeSelector,
+  FulfillmentAvailabilityAttribute,
+  ListingItem,
+  Money,
+  PurchasableOfferAttribute
+} from './types.js';
+import { getMarketplace } from './marketplaces.js';
+
+/**
+ * Normalizes a language tag for comparison (`en-us` becomes `en_US`)
+ * 
+ * @internal
+ */
+function normalizeLanguageTag(tag: string): string {
+  const [language = '', region] = tag.replace('-', '_').split('_');
+  return region ? `${language.toLowerCase()}_${region.toUpperCase()}` : language.toLowerCase();
+}
+
+/**
+ * Ranks an entry's marketplace against the selector; lower is better
+ * 
+ * @internal
+ */
+function rankMarketplace(entry: AttributeEntry, marketplaceId: string | undefined): number {
+  if (!marketplaceId || entry.marketplace_id === marketplaceId) {
+    return 0;
+  }
+  return entry.marketplace_id === undefined ? 1 : 2;
+}
+
+/**
+ * Ranks an entry's language against the wanted and default languages; lower is better
+ * 
+ * @internal
+ */
+function rankLanguage(entry: AttributeEntry, wanted: string | undefined, fallback: string | undefined): number {
+  if (!wanted) {
+    return 0;
+  }
+  if (entry.language_tag === undefined) {
+    return 3;
+  }
+
+  const tag = normalizeLanguageTag(entry.language_tag);
+  if (tag === wanted) {
+    return 0;
+  }
+  if (tag.split('_')[0] === wanted.split('_')[0]) {
+    return 1;
+  }
+  return tag === fallback ? 2 : 4;
+}
+
+/**
+ * Gets the raw entries of an attribute
+ * 
+ * @param item - Listing item with `attributes` included
+ * @param name - Attribute name, e.g. `item_name`
+ * @returns Every entry of the attribute, or an empty array when it is missing
+ */
+export function getAllAttributeEntries<K extends string>(item: ListingItem, name: K): AttributeEntryOf<K>[] {
+  const entries: unknown = item.attributes?.[name];
+  return Array.isArray(entries)
+    ? entries.filter((entry): entry is AttributeEntryOf<K> => typeof entry === 'object' && entry !== null)
+    : [];
+}
+
+/**
+ * Gets the entries of an attribute that best match a marketplace and language
+ * 
+ * @param item - Listing item with `attributes` included
+ * @param name - Attribute name, e.g. `bullet_point`
+ * @param selector - Marketplace and language to resolve for
+ * @returns The best-ranked entries, in their original order; empty when none qualify
+ * 
+ * @remarks
+ * Multi-valued attributes such as `bullet_point` return every entry for the
+ * chosen marketplace and language. See {@link AttributeSelector} for the ranking.
+ * 
+ * @example
+ * ```typescript
+ * const bullets = getAttributeEntries(item, 'bullet_point', {
+ *   marketplaceId: 'A1PA6795UKMFR9',
+ *   languageTag: 'de_DE'
+ * });
+ * ```
+ */
+export function getAttributeEntries<K extends string>(
+  item: ListingItem,
+  name: K,
+  selector: AttributeSelector = {}
+): AttributeEntryOf<K>[] {
+  const { marketplaceId, fallback = true } = selector;
+  const defaultLanguage = marketplaceId ? getMarketplace(marketplaceId)?.defaultLanguageTag : undefined;
+  const wanted = selector.languageTag ? normalizeLanguageTag(selector.languageTag) : defaultLanguage;
+
+  const ranked = getAllAttributeEntries(item, name).map(entry => ({
+    entry,
+    marketplace: rankMarketplace(entry, marketplaceId),
+    language: rankLanguage(entry, wanted, defaultLanguage)
+  }));
+
+  // Without fallback, only the marketplace and language asked for (or untagged entries) qualify
+  const candidates = fallback
+    ? ranked
+    : ranked.filter(r => r.marketplace <= 1 && (r.language <= 1 || r.language === 3));
+  if (candidates.length === 0) {
+    return [];
+  }
+
+  const best = Math.min(...candidates.map(r => r.marketplace * 10 + r.language));
+  return candidates.filter(r => r.marketplace * 10 + r.language === best).map(r => r.entry);
+}
+
+/**
+ * Gets the entry of an attribute that best matches a marketplace and language
+ * 
+ * @param item - Listing item with `attributes` included
+ * @param name - Attribute name
+ * @param selector - Marketplace and language to resolve for
+ * @returns The first best-ranked entry, or undefined
+ */
+export function getAttributeEntry<K extends string>(
+  item: ListingItem,
+  name: K,
+  selector?: AttributeSelector
+): AttributeEntryOf<K> | undefined {
+  return getAttributeEntries(item, name, selector)[0];
+}
+
+/**
+ * Gets the `value` of an attribute for a marketplace and language
+ * 
+ * @param item - Listing item with `attributes` included
+ * @param name - Attribute name
+ * @param selector - Marketplace and language to resolve for
+ * @returns The value of the best-matching entry, or undefined
+ * 
+ * @example
+ * ```typescript
+ * const title = getAttributeValue<string>(item, 'item_name', { marketplaceId: 'ATVPDKIKX0DER' });
+ * const color = getAttributeValue<string>(item, 'color', { marketplaceId: 'ATVPDKIKX0DER' });
+ * ```
+ */
+export function getAttributeValue<T = unknown>(
+  item: ListingItem,
+  name: string,
+  selector?: AttributeSelector
+): T | undefined {
+  return getAttributeEntry(item, name, selector)?.value as T | undefined;
+}
+
+/**
+ * Gets the `value` of every best-matching entry of an attribute
+ * 
+ * @param item - Listing item with `attributes` included
+ * @param name - Attribute name
+ * @param selector - Marketplace and language to resolve for
+ * @returns Values of the best-ranked entries, skipping entries without a value
+ */
+export function getAttributeValues<T = unknown>(
+  item: ListingItem,
+  name: string,
+  selector?: AttributeSelector
+): T[] {
+  return getAttributeEntries(item, name, selector)
+    .filter(entry => entry.value !== undefined)
+    .map(entry => entry.value as T);
+}
+
+/**
+ * Reads a value at a path inside an item's attributes
+ * 
+ * @param item - Listing item with `attributes` included
+ * @param path - Dot path starting with the attribute name, with `[n]` for array indexes
+ * @param selector - Marketplace and language used to pick the entry when the path does not index it
+ * @returns The value at the path, or undefined when any segment is missing
+ * 
+ * @remarks
+ * When the segment after the attribute name is not an index, the entry is
+ * resolved with {@link getAttributeEntry}, so `item_name.value` reads the title
+ * for the selected marketplace and language. An explicit index such as
+ * `bullet_point[2].value` reads that entry regardless of the selector.
+ * 
+ * The result type is derived from the path with {@link AttributePathValue}, so
+ * paths into {@link KnownListingAttributes} are typed and other paths give
+ * `unknown`. The type is not checked against the data; narrow the value at
+ * runtime when the attribute's shape is not certain.
+ * 
+ * @example
+ * ```typescript
+ * // number | undefined
+ * const price = getAttributePath(
+ *   item,
+ *   'purchasable_offer.our_price[0].schedule[0].value_with_tax',
+ *   { marketplaceId: 'ATVPDKIKX0DER' }
+ * );
+ * // unknown
+ * const weight = getAttributePath(item, 'item_weight[0].value');
+ * if (typeof weight === 'number') {
+ *   console.log(weight);
+ * }
+ * ```
+ */
+export function getAttributePath<P extends string>(
+  item: ListingItem,
+  path: P,
+  selector?: AttributeSelector
+): AttributePathValue<P> | undefined {
+  const segments = path.match(/[^.[\]]+|\[\d+\]/g) || [];
+  const [name, ...rest] = segments;
+  if (!name) {
+    return undefined;
+  }
+
+  let current: unknown;
+  if (rest[0]?.startsWith('[')) {
+    current = item.attributes?.[name];
+  } else {
+    current = getAttributeEntry(item, name, selector);
+  }
+
+  for (const segment of rest) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    const key = segment.startsWith('[') ? Number(segment.slice(1, -1)) : segment;
+    current = (current as Record<string | number, unknown>)[key];
+  }
+
+  return current as AttributePathValue<P> | undefined;
+}
+
+/**
+ * Gets the title of an item
+ * 
+ * @param item - Listing item with `attributes` included
+ * @param selector - Marketplace and language to resolve for
+ * @returns The `item_name` value, or undefined
+ */
+export function getItemName(item: ListingItem, selector?: AttributeSelector): string | undefined {
+  return getAttributeValue<string>(item, 'item_name', selector);
+}
+
+/**
+ * Gets the brand of an item
+ * 
+ * @param item - Listing item with `attributes` included
+ * @param selector - Marketplace and language to resolve for
+ * @returns The `brand` value, or undefined
+ */
+export function getBrand(item: ListingItem, selector?: AttributeSelector): string | undefined {
+  return getAttributeValue<string>(item, 'brand', selector);
+}
+
+/**
+ * Gets the bullet points of an item
+ * 
+ * @param item - Listing item with `attributes` included
+ * @param selector - Marketplace and language to resolve for
+ * @returns The `bullet_point` values in listing order, or an empty array
+ */
+export function getBulletPoints(item: ListingItem, selector?: AttributeSelector): string[] {
+  return getAttributeValues<string>(item, 'bullet_point', selector);
+}
+
+/**
+ * Gets the list price of an item
+ * 
+ * @param item - Listing item with `attributes` included
+ * @param selector - Marketplace to resolve for
+ * @returns The price including tax when given, otherwise the plain price; undefined when missing
+ * 
+ * @example
+ * ```typescript
+ * getListPrice(item, { marketplaceId: 'ATVPDKIKX0DER' }); // { currencyCode: 'USD', amount: '24.99' }
+ * ```
+ */
+export function getListPrice(item: ListingItem, selector?: AttributeSelector): Money | undefined {
+  const entry = getAttributeEntry(item, 'list_price', selector);
+  const amount = entry?.value_with_tax ?? entry?.value;
+  if (!entry || amount === undefined || !entry.currency) {
+    return undefined;
+  }
+  return { currencyCode: entry.currency, amount: String(amount) };
+}
+
+/**
+ * Gets the purchasable offer of an item for an audience
+ * 
+ * @param item - Listing item with `attributes` included
+ * @param selector - Marketplace to resolve for
+ * @param audience - Buyer audience (default `ALL`)
+ * @returns The `purchasable_offer` entry, or undefined
+ */
+export function getPurchasableOffer(
+  item: ListingItem,
+  selector?: AttributeSelector,
+  audience: string = 'ALL'
+): PurchasableOfferAttribute | undefined {
+  return getAttributeEntries(item, 'purchasable_offer', selector)
+    .find(entry => (entry.audience || 'ALL') === audience);
+}
+
+/**
+ * Gets the current selling price from an item's purchasable offer
+ * 
+ * @param item - Listing item with `attributes` included
+ * @param selector - Marketplace to resolve for
+ * @param audience - Buyer audience (default `ALL`)
+ * @returns The first scheduled `our_price`, or undefined
+ */
+export function getOurPrice(
+  item: ListingItem,
+  selector?: AttributeSelector,
+  audience: string = 'ALL'
+): Money | undefined {
+  const offer = getPurchasableOffer(item, selector, audience);
+  // Attributes are not validated against their types, so any level may be missing
+  const amount = offer?.our_price?.[0]?.schedule?.[0]?.value_with_tax;
+  if (!offer?.currency || amount === undefined) {
+    return undefined;
+  }
+  return { currencyCode: offer.currency, amount: String(amount) };
+}
+
+/**
+ * Gets the fulfillment availability entries of an item
+ * 
+ * @param item - Listing item with `attributes` included
+ * @param fulfillmentChannelCode - Only return this channel, e.g. `DEFAULT`
+ * @returns Matching `fulfillment_availability` entries
+ * 
+ * @remarks
+ * Fulfillment availability is not scoped to a marketplace or language, so no
+ * selector is taken.
+ */
+export function getFulfillmentAvailabilityAttributes(
+  item: ListingItem,
+  fulfillmentChannelCode?: string
+): FulfillmentAvailabilityAttribute[] {
+  return getAllAttributeEntries(item, 'fulfillment_availability')
+    .filter(entry => !fulfillmentChannelCode || entry.fulfillment_channel_code === fulfillmentChannelCode);
+}
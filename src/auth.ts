@@ -0,0 +1,206 @@
+/**
+ * Authentication support for Amazon SP-API Client
+ * 
+ * This module contains the Login with Amazon (LWA) access token provider
+ * used to authorize SP-API requests.
+ * 
+ * @group Authentication
+ */
+
+import type { AccessTokenProvider, HttpResponse, HttpTransport, LwaCredentials, LwaTokenResponse } from './types.js';
+import {
+  HttpTransportError,
+  SpApiClientError,
+  createSpApiErrorFromResponse,
+  createSpApiErrorFromTransportError,
+  getHttpErrorMessage
+} from './errors.js';
+import { AxiosHttpTransport } from './transport.js';
+
+/**
+ * Default Login with Amazon token endpoint
+ */
+export const DEFAULT_LWA_TOKEN_ENDPOINT = 'https://api.amazon.com/auth/o2/token';
+
+/**
+ * Access token provider backed by a Login with Amazon refresh token
+ * 
+ * @group Classes
+ * @remarks
+ * Exchanges the refresh token for an access token at the configured token endpoint
+ * and caches it until shortly before it expires. Concurrent callers share a single
+ * in-flight refresh, so a burst of requests results in one token exchange.
+ * 
+ * @example
+ * ```typescript
+ * import { AmazonSpApiClient, LwaTokenProvider } from './amazon-sp-api-client.js';
+ * 
+ * const tokenProvider = new LwaTokenProvider({
+ *   clientId: 'amzn1.application-oa2-client.xxxxxxxx',
+ *   clientSecret: 'your-client-secret',
+ *   refreshToken: 'Atzr|your-refresh-token'
+ * });
+ * 
+ * const client = new AmazonSpApiClient({
+ *   baseUrl: 'https://sellingpartnerapi-na.amazon.com',
+ *   accessTokenProvider: tokenProvider
+ * });
+ * ```
+ */
+export class LwaTokenProvider implements AccessTokenProvider {
+  /**
+   * LWA credentials used for the token exchange
+   */
+  private readonly credentials: LwaCredentials;
+
+  /**
+   * Token endpoint URL
+   */
+  private readonly tokenEndpoint: string;
+
+  /**
+   * How long before expiry a cached token is refreshed, in milliseconds
+   */
+  private readonly refreshMarginMs: number;
+
+  /**
+   * Token request timeout in milliseconds
+   */
+  private readonly timeout: number;
+
+  /**
+   * HTTP transport used for the token exchange
+   */
+  private readonly transport: HttpTransport;
+
+  /**
+   * Currently cached access token and its expiry time (epoch milliseconds)
+   */
+  private cachedToken: { value: string; expiresAt: number } | undefined;
+
+  /**
+   * Token exchange currently in flight, shared by concurrent callers
+   */
+  private pendingRefresh: Promise<string> | undefined;
+
+  /**
+   * Creates a new LWA token provider
+   * 
+   * @param credentials - LWA client credentials and refresh token
+   * @param transport - Optional HTTP transport (defaults to a new {@link AxiosHttpTransport})
+   */
+  constructor(credentials: LwaCredentials, transport?: HttpTransport) {
+    this.credentials = credentials;
+    this.tokenEndpoint = credentials.tokenEndpoint || DEFAULT_LWA_TOKEN_ENDPOINT;
+    this.refreshMarginMs = credentials.refreshMarginMs ?? 60000; // Default 1 minute
+    this.timeout = credentials.timeout || 10000; // Default 10 seconds
+    this.transport = transport || new AxiosHttpTransport();
+  }
+
+  /**
+   * Returns a cached access token, exchanging the refresh token when needed
+   * 
+   * @returns Promise resolving to a valid access token
+   * @throws {SpApiClientError} When the token endpoint rejects the request
+   */
+  public async getAccessToken(): Promise<string> {
+    if (this.cachedToken && Date.now() < this.cachedToken.expiresAt - this.refreshMarginMs) {
+      return this.cachedToken.value;
+    }
+
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.requestToken().finally(() => {
+        this.pendingRefresh = undefined;
+      });
+    }
+
+    return this.pendingRefresh;
+  }
+
+  /**
+   * Discards the cached access token so the next call performs a new exchange
+   * 
+   * @param token - The token the API rejected; when another request has already
+   * refreshed it, the newer cached token is kept
+   */
+  public invalidate(token?: string): void {
+    if (token === undefined || this.cachedToken?.value === token) {
+      this.cachedToken = undefined;
+    }
+  }
+
+  /**
+   * Performs the refresh token exchange and caches the result
+   * 
+   * @returns Promise resolving to the new access token
+   * 
+   * @internal
+   */
+  private async requestToken(): Promise<string> {
+    const body = new URLSearchParams({
+      grant_type: 'refresh_token',
+      refresh_token: this.credentials.refreshToken,
+      client_id: this.credentials.clientId,
+      client_secret: this.credentials.clientSecret,
+    });
+
+    let response: HttpResponse<LwaTokenResponse | undefined>;
+    try {
+      response = await this.transport.request<LwaTokenResponse | undefined>({
+        method: 'POST',
+        url: this.tokenEndpoint,
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded;charset=UTF-8',
+          'Accept': 'application/json',
+        },
+        body: body.toString(),
+        timeout: this.timeout,
+      });
+    } catch (error) {
+      if (error instanceof HttpTransportError) {
+        throw createSpApiErrorFromTransportError(error);
+      }
+      throw error;
+    }
+
+    if (response.status >= 400) {
+      throw createLwaError(response);
+    }
+
+    const { access_token: accessToken, expires_in: expiresIn } = response.data || {};
+    if (!accessToken) {
+      throw new SpApiClientError(response.status, [{
+        code: 'LWA_INVALID_RESPONSE',
+        message: 'Token endpoint response did not contain an access token',
+      }]);
+    }
+
+    this.cachedToken = {
+      value: accessToken,
+      expiresAt: Date.now() + (expiresIn || 3600) * 1000,
+    };
+
+    return accessToken;
+  }
+}
+
+/**
+ * Converts a failed token exchange response into a SpApiClientError
+ * 
+ * @param response - Error response from the token endpoint
+ * @returns SpApiClientError describing the LWA failure
+ * 
+ * @internal
+ */
+function createLwaError(response: HttpResponse<unknown>): SpApiClientError {
+  // LWA reports failures as { error, error_description } rather than the SP-API error format
+  const data = response.data as { error?: string; error_description?: string } | undefined;
+  if (typeof data?.error === 'string') {
+    return new SpApiClientError(response.status, [{
+      code: data.error,
+      message: data.error_description || getHttpErrorMessage(response.status),
+    }], undefined, undefined, `LWA token request failed: ${response.status}`);
+  }
+
+  return createSpApiErrorFromResponse(response);
+}
@@ -0,0 +1,385 @@
+/**
+ * Response caching for Amazon SP-API Client
+ * 
+ * This module contains the in-memory LRU cache store and the response cache
+ * that dedupes identical in-flight requests.
+ * 
+ * @group Caching
+ */
+
+import type {
+  CacheEntry,
+  CacheMode,
+  CacheStore,
+  IncludedDataType,
+  ResponseCacheOptions
+} from './types.js';
+import { durationToMs } from './query-builder.js';
+
+/**
+ * Time to live used when none is configured
+ */
+const DEFAULT_CACHE_TTL_MS = 60 * 1000;
+
+/**
+ * Number of entries kept by the in-memory store when none is configured
+ */
+const DEFAULT_MAX_ENTRIES = 1000;
+
+/**
+ * Query parameters whose comma-delimited values are unordered sets
+ */
+const UNORDERED_LIST_PARAMS = new Set(['includedData', 'marketplaceIds']);
+
+/**
+ * Builds the cache key of a request from its method, URL and query
+ * 
+ * @param method - HTTP method
+ * @param url - Request URL without the query string
+ * @param query - URL-encoded query string
+ * @returns A key that is equal for requests differing only in parameter order
+ * 
+ * @example
+ * ```typescript
+ * createCacheKey('GET', url, 'includedData=offers%2Csummaries&marketplaceIds=ATVPDKIKX0DER') ===
+ *   createCacheKey('GET', url, 'marketplaceIds=ATVPDKIKX0DER&includedData=summaries%2Coffers'); // true
+ * ```
+ */
+export function createCacheKey(method: string, url: string, query: string): string {
+  const params: Array<[string, string]> = [];
+  for (const [name, value] of new URLSearchParams(query)) {
+    params.push([name, UNORDERED_LIST_PARAMS.has(name) ? value.split(',').sort().join(',') : value]);
+  }
+
+  params.sort(([nameA, valueA], [nameB, valueB]) => {
+    if (nameA !== nameB) {
+      return nameA < nameB ? -1 : 1;
+    }
+    return valueA < valueB ? -1 : valueA > valueB ? 1 : 0;
+  });
+
+  return `${method.toUpperCase()} ${url}?${new URLSearchParams(params).toString()}`;
+}
+
+/**
+ * In-memory cache store that evicts the least recently used entry when full
+ * 
+ * @group Classes
+ * @remarks
+ * Entries are kept per process. Expired entries are removed when read; use a
+ * shared {@link CacheStore} to let several workers reuse each other's responses.
+ * 
+ * @example
+ * ```typescript
+ * const client = new AmazonSpApiClient({
+ *   baseUrl: 'https://sellingpartnerapi-na.amazon.com',
+ *   cache: { store: new InMemoryCacheStore(10000), ttl: '2m' }
+ * });
+ * ```
+ */
+export class InMemoryCacheStore implements CacheStore {
+  /**
+   * Entries in least to most recently used order
+   */
+  private readonly entries = new Map<string, CacheEntry>();
+
+  /**
+   * Maximum number of entries
+   */
+  private readonly maxEntries: number;
+
+  /**
+   * Creates a new in-memory cache store
+   * 
+   * @param maxEntries - Maximum number of entries (default 1000)
+   * @throws {Error} When maxEntries is not a positive integer
+   */
+  constructor(maxEntries: number = DEFAULT_MAX_ENTRIES) {
+    if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+      throw new Error(`maxEntries must be a positive integer: ${maxEntries}`);
+    }
+    this.maxEntries = maxEntries;
+  }
+
+  /**
+   * Number of entries currently stored, including expired ones not yet read
+   */
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Gets an entry and marks it as most recently used
+   * 
+   * @param key - Cache key
+   * @returns The entry, or undefined when none is stored or it has expired
+   */
+  public async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+
+    // Re-insert to mark the entry as most recently used
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  /**
+   * Stores an entry, evicting the least recently used entries beyond `maxEntries`
+   * 
+   * @param key - Cache key
+   * @param entry - Entry to store
+   */
+  public async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Removes an entry
+   * 
+   * @param key - Cache key
+   */
+  public async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  /**
+   * Removes every entry
+   */
+  public async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * A request shared by every caller waiting for the same key
+ * 
+ * @internal
+ */
+interface InFlightRequest {
+  /** Resolves with the response body */
+  promise: Promise<unknown>;
+
+  /** Aborts the shared request once every waiter has aborted */
+  controller: AbortController;
+
+  /** Number of callers still waiting */
+  waiters: number;
+}
+
+/**
+ * Response cache used by the client for read operations
+ * 
+ * @group Classes
+ * @remarks
+ * Identical requests made while one is in flight share its response instead of
+ * being sent again. The shared request is only aborted once every caller
+ * waiting for it has aborted. Errors are never cached, and a failing store
+ * degrades to uncached requests rather than failing them.
+ * 
+ * Every caller gets its own copy of a response, whether it is served from the
+ * store or shared with other waiters, so changing it affects no other caller.
+ * 
+ * Freshness is decided by TTL alone: SP-API offers no ETags or conditional
+ * requests to revalidate an entry, so an entry is used until it expires or is
+ * refreshed with the `refresh` mode.
+ */
+export class ResponseCache {
+  /**
+   * Storage backend
+   */
+  public readonly store: CacheStore;
+
+  /**
+   * Time to live of data without a specific TTL
+   */
+  private readonly ttlMs: number;
+
+  /**
+   * Time to live per included data type
+   */
+  private readonly includedDataTtlMs: Partial<Record<IncludedDataType, number>>;
+
+  /**
+   * Receives store failures
+   */
+  private readonly onError: (error: unknown) => void;
+
+  /**
+   * Requests in flight, by cache key
+   */
+  private readonly inFlight = new Map<string, InFlightRequest>();
+
+  /**
+   * Creates a new response cache
+   * 
+   * @param options - Store and TTLs
+   * @param onError - Receives errors thrown by the store
+   */
+  constructor(options: ResponseCacheOptions = {}, onError: (error: unknown) => void = () => {}) {
+    this.store = options.store || new InMemoryCacheStore(options.maxEntries);
+    this.ttlMs = options.ttl === undefined ? DEFAULT_CACHE_TTL_MS : durationToMs(options.ttl);
+    this.includedDataTtlMs = {};
+    for (const [data, ttl] of Object.entries(options.includedDataTtl || {})) {
+      this.includedDataTtlMs[data as IncludedDataType] = durationToMs(ttl);
+    }
+    this.onError = onError;
+  }
+
+  /**
+   * Gets the time to live of a response
+   * 
+   * @param includedData - Data included in the response (`summaries` when none is requested)
+   * @returns The shortest TTL among the included data, in milliseconds
+   */
+  public getTtl(includedData: readonly IncludedDataType[] | undefined): number {
+    const data: readonly IncludedDataType[] = includedData?.length ? includedData : ['summaries'];
+    return Math.min(...data.map(d => this.includedDataTtlMs[d] ?? this.ttlMs));
+  }
+
+  /**
+   * Returns a cached response, or loads and caches it
+   * 
+   * @param key - Cache key of the request, see {@link createCacheKey}
+   * @param ttlMs - Time to live of the response
+   * @param mode - How the cache is used
+   * @param load - Sends the request, aborting it when the given signal is aborted
+   * @param signal - Signal of the caller
+   * @returns Promise resolving to a copy of the response body
+   */
+  public async fetch<T>(
+    key: string,
+    ttlMs: number,
+    mode: CacheMode,
+    load: (signal: AbortSignal | undefined) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    if (mode === 'bypass' || ttlMs <= 0) {
+      return load(signal);
+    }
+
+    if (mode === 'default') {
+      const entry = await this.read(key);
+      if (entry) {
+        return structuredClone(entry.value) as T;
+      }
+    }
+
+    signal?.throwIfAborted();
+
+    let request = this.inFlight.get(key);
+    if (!request || request.controller.signal.aborted) {
+      request = this.start(key, ttlMs, load);
+    }
+
+    // The stored value is never handed out, so callers cannot change it for each other
+    return structuredClone(await this.wait(key, request, signal)) as T;
+  }
+
+  /**
+   * Removes every cached response, if the store supports it
+   */
+  public async clear(): Promise<void> {
+    await this.store.clear?.();
+  }
+
+  /**
+   * Sends a request shared by every caller of the same key, storing its response
+   * 
+   * @internal
+   */
+  private start(key: string, ttlMs: number, load: (signal: AbortSignal | undefined) => Promise<unknown>): InFlightRequest {
+    const controller = new AbortController();
+    const request: InFlightRequest = { promise: Promise.resolve(), controller, waiters: 0 };
+    request.promise = (async () => {
+      try {
+        const value = await load(controller.signal);
+        const now = Date.now();
+        await this.write(key, { value, storedAt: now, expiresAt: now + ttlMs });
+        return value;
+      } finally {
+        // An aborted request may already have been replaced by a new one
+        if (this.inFlight.get(key) === request) {
+          this.inFlight.delete(key);
+        }
+      }
+    })();
+    // Waiters handle the outcome; this keeps an abandoned request from being unhandled
+    request.promise.catch(() => {});
+
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  /**
+   * Waits for a shared request, giving up when the caller's signal is aborted
+   * 
+   * @remarks
+   * When the last waiter gives up, the request is aborted and forgotten, so a
+   * later caller starts a new one instead of joining it.
+   * 
+   * @internal
+   */
+  private wait(key: string, request: InFlightRequest, signal: AbortSignal | undefined): Promise<unknown> {
+    request.waiters++;
+    if (!signal) {
+      return request.promise;
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        request.waiters--;
+        if (request.waiters === 0) {
+          if (this.inFlight.get(key) === request) {
+            this.inFlight.delete(key);
+          }
+          request.controller.abort(signal.reason);
+        }
+        reject(signal.reason);
+      };
+
+      signal.addEventListener('abort', onAbort, { once: true });
+      request.promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  /**
+   * Reads a fresh entry, treating store failures as misses
+   * 
+   * @internal
+   */
+  private async read(key: string): Promise<CacheEntry | undefined> {
+    try {
+      const entry = await this.store.get(key);
+      return entry && entry.expiresAt > Date.now() ? entry : undefined;
+    } catch (error) {
+      this.onError(error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Writes an entry, reporting store failures instead of throwing
+   * 
+   * @internal
+   */
+  private async write(key: string, entry: CacheEntry): Promise<void> {
+    try {
+      await this.store.set(key, entry);
+    } catch (error) {
+      this.onError(error);
+    }
+  }
+}
@@ -0,0 +1,550 @@
+/**
+ * Command-line tool for Amazon SP-API Client
+ * 
+ * This module implements `sp-listings search`, which searches listing items
+ * with {@link AmazonSpApiClient}, pages through every result and prints them
+ * as a table, JSON, NDJSON or CSV.
+ * 
+ * It depends on Node.js and is not exported from the main entry point; import
+ * it from `dist/cli.js`, or run the `sp-listings` binary.
+ * 
+ * @group CLI
+ */
+
+import { parseArgs } from 'node:util';
+import { readFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import type {
+  CliEnvironment,
+  CliOutputFormat,
+  TextOutputStream,
+  CliProfile,
+  ExportRow,
+  ListingItem,
+  SearchListingsItemsQueryParams,
+  SpApiClientConfig,
+  SpApiRegion
+} from './types.js';
+import { AmazonSpApiClient } from './client.js';
+import { SpApiClientError, SpApiValidationError, createSpApiValidationError } from './errors.js';
+import { validateSearchParams } from './validators.js';
+import { REGION_ENDPOINTS, getMarketplace } from './marketplaces.js';
+import { flattenListingItems, writeListingItemsCsv, writeText } from './export.js';
+
+/**
+ * Exit codes of the `sp-listings` command-line tool
+ * 
+ * - `OK`: the command succeeded
+ * - `ERROR`: any failure not covered below
+ * - `VALIDATION`: a flag or parameter was invalid; no request was sent
+ * - `AUTH`: credentials were missing or rejected
+ * - `THROTTLED`: requests were still throttled after retrying
+ * - `SERVER`: the API failed or could not be reached
+ */
+export const CLI_EXIT_CODES = {
+  OK: 0,
+  ERROR: 1,
+  VALIDATION: 2,
+  AUTH: 3,
+  THROTTLED: 4,
+  SERVER: 5
+} as const;
+
+/**
+ * How a search flag's value is parsed
+ * 
+ * @internal
+ */
+type FlagKind = 'string' | 'list' | 'number';
+
+/**
+ * Command-line flag of every search parameter
+ */
+const SEARCH_FLAGS: Record<keyof SearchListingsItemsQueryParams, { flag: string; kind: FlagKind }> = {
+  sellerId: { flag: 'seller-id', kind: 'string' },
+  marketplaceIds: { flag: 'marketplace-ids', kind: 'list' },
+  issueLocale: { flag: 'issue-locale', kind: 'string' },
+  includedData: { flag: 'included-data', kind: 'list' },
+  identifiers: { flag: 'identifiers', kind: 'list' },
+  identifiersType: { flag: 'identifiers-type', kind: 'string' },
+  variationParentSku: { flag: 'variation-parent-sku', kind: 'string' },
+  packageHierarchySku: { flag: 'package-hierarchy-sku', kind: 'string' },
+  createdAfter: { flag: 'created-after', kind: 'string' },
+  createdBefore: { flag: 'created-before', kind: 'string' },
+  lastUpdatedAfter: { flag: 'last-updated-after', kind: 'string' },
+  lastUpdatedBefore: { flag: 'last-updated-before', kind: 'string' },
+  withIssueSeverity: { flag: 'with-issue-severity', kind: 'list' },
+  withStatus: { flag: 'with-status', kind: 'list' },
+  withoutStatus: { flag: 'without-status', kind: 'list' },
+  sortBy: { flag: 'sort-by', kind: 'string' },
+  sortOrder: { flag: 'sort-order', kind: 'string' },
+  pageSize: { flag: 'page-size', kind: 'number' },
+  pageToken: { flag: 'page-token', kind: 'string' }
+};
+
+/**
+ * Output formats accepted by `--format`
+ */
+const OUTPUT_FORMATS: readonly CliOutputFormat[] = ['table', 'json', 'ndjson', 'csv'];
+
+/**
+ * Columns of the table and CSV output, one row per SKU and marketplace (see {@link EXPORT_COLUMNS})
+ */
+const OUTPUT_COLUMNS = [
+  'sku', 'marketplaceId', 'asin', 'productType', 'conditionType', 'status',
+  'itemName', 'createdDate', 'lastUpdatedDate', 'issueCount'
+];
+
+/**
+ * LWA error codes meaning the credentials were rejected
+ */
+const LWA_AUTH_ERROR_CODES = ['invalid_grant', 'invalid_client', 'unauthorized_client', 'LWA_INVALID_RESPONSE'];
+
+/**
+ * Default location of the profile file
+ */
+const DEFAULT_PROFILE_FILE = join(homedir(), '.sp-listings', 'credentials.json');
+
+/**
+ * Usage text printed by `--help`
+ */
+const USAGE = `Usage: sp-listings search [flags]
+
+Searches listing items and prints every page of results.
+
+Search flags (lists can be repeated or comma-separated):
+${Object.values(SEARCH_FLAGS).map(({ flag, kind }) => `  --${flag}${kind === 'list' ? ' <a,b,...>' : kind === 'number' ? ' <n>' : ' <value>'}`).join('\n')}
+
+Output flags:
+  --format <table|json|ndjson|csv>   Output format (default table)
+  --max-pages <n>                    Stop after this many pages
+  --max-items <n>                    Stop after this many items
+
+Connection flags:
+  --profile <name>                   Profile in the profile file (default "default")
+  --profile-file <path>              Profile file (default ~/.sp-listings/credentials.json)
+  --region <NA|EU|FE>                Region (default: that of the first marketplace)
+  --base-url <url>                   Endpoint URL, instead of a region
+  --sandbox                          Use the region's sandbox host
+
+Credentials are read from SP_API_CLIENT_ID, SP_API_CLIENT_SECRET and
+SP_API_REFRESH_TOKEN (or SP_API_ACCESS_TOKEN), or from the profile file.
+SP_API_REGION, SP_API_BASE_URL, SP_API_SELLER_ID and SP_API_MARKETPLACE_IDS
+provide defaults, as do SP_LISTINGS_PROFILE and SP_LISTINGS_PROFILE_FILE.
+
+Exit codes: 0 success, 1 other error, 2 invalid flags, 3 authentication,
+4 throttled, 5 server or network error.
+`;
+
+/**
+ * Error for a problem with the command line or configuration, reported without a stack trace
+ * 
+ * @internal
+ */
+class CliError extends Error {
+  constructor(message: string, public readonly exitCode: number) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+/**
+ * Splits repeated and comma-separated list values
+ * 
+ * @internal
+ */
+function splitList(values: string[]): string[] {
+  return values.flatMap(value => value.split(',')).map(value => value.trim()).filter(Boolean);
+}
+
+/**
+ * Parses a whole number flag
+ * 
+ * @internal
+ */
+function parseNumberFlag(flag: string, value: string): number {
+  const number = Number(value);
+  if (value.trim() === '' || !Number.isInteger(number)) {
+    throw new CliError(`--${flag}: expected a whole number, got "${value}"`, CLI_EXIT_CODES.VALIDATION);
+  }
+  return number;
+}
+
+/**
+ * Checks that a region setting names a known region
+ * 
+ * @param source - Where the value came from, used in the error message
+ * @param value - Region name
+ * 
+ * @internal
+ */
+function parseRegion(source: string, value: string): SpApiRegion {
+  if (!Object.hasOwn(REGION_ENDPOINTS, value)) {
+    throw new CliError(`${source}: expected one of ${Object.keys(REGION_ENDPOINTS).join(', ')}, got "${value}"`, CLI_EXIT_CODES.VALIDATION);
+  }
+  return value as SpApiRegion;
+}
+
+/**
+ * Rewrites a validation message in terms of flags instead of parameter names
+ * 
+ * @internal
+ */
+function toFlagMessage(message: string): string {
+  return message.replace(/"?\b([a-zA-Z]+)\b(\[\d+\])?"?/g, (match, name: string) =>
+    name in SEARCH_FLAGS ? `--${SEARCH_FLAGS[name as keyof SearchListingsItemsQueryParams].flag}` : match);
+}
+
+/**
+ * Formats the details of a validation error as one line per flag
+ * 
+ * @internal
+ */
+function formatValidationError(error: SpApiValidationError): string {
+  return error.details.map(detail => {
+    const param = detail.path.split(/[.[]/)[0] as keyof SearchListingsItemsQueryParams;
+    const flag = SEARCH_FLAGS[param] ? `--${SEARCH_FLAGS[param].flag}` : detail.path || 'parameters';
+    const value = detail.value;
+    const got = (typeof value === 'string' || typeof value === 'number') && !detail.message.includes(String(value))
+      ? ` (got "${value}")`
+      : '';
+    const message = toFlagMessage(detail.message);
+    return `${message.startsWith(flag) ? message : `${flag}: ${message}`}${got}`;
+  }).join('\n');
+}
+
+/**
+ * Loads a profile from the profile file
+ * 
+ * @remarks
+ * A missing file is only an error when a profile was asked for by name.
+ * 
+ * @internal
+ */
+async function loadProfile(path: string, name: string, required: boolean): Promise<CliProfile> {
+  let text: string;
+  try {
+    text = await readFile(path, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT' && !required) {
+      return {};
+    }
+    throw new CliError(`Cannot read profile file ${path}: ${(error as Error).message}`, CLI_EXIT_CODES.AUTH);
+  }
+
+  let profiles: Record<string, CliProfile>;
+  try {
+    profiles = JSON.parse(text) as Record<string, CliProfile>;
+  } catch (error) {
+    throw new CliError(`Profile file ${path} is not valid JSON: ${(error as Error).message}`, CLI_EXIT_CODES.AUTH);
+  }
+
+  const profile = profiles[name];
+  if (!profile) {
+    if (required) {
+      throw new CliError(`Profile "${name}" not found in ${path}`, CLI_EXIT_CODES.AUTH);
+    }
+    return {};
+  }
+  return profile;
+}
+
+/**
+ * Merges connection settings from flags, environment variables and the profile file, in that order
+ * 
+ * @internal
+ */
+async function resolveProfile(flags: Record<string, unknown>, env: CliEnvironment['env']): Promise<CliProfile> {
+  const name = (flags['profile'] as string | undefined) || env['SP_LISTINGS_PROFILE'];
+  const path = (flags['profile-file'] as string | undefined) || env['SP_LISTINGS_PROFILE_FILE'] || DEFAULT_PROFILE_FILE;
+  const profile = await loadProfile(path, name || 'default', name !== undefined);
+
+  const envMarketplaceIds = env['SP_API_MARKETPLACE_IDS'] ? splitList([env['SP_API_MARKETPLACE_IDS']]) : undefined;
+  const resolved: CliProfile = {
+    ...profile,
+    ...(profile.region !== undefined ? { region: parseRegion(`region of profile "${name || 'default'}"`, profile.region) } : {}),
+    ...(env['SP_API_CLIENT_ID'] ? { clientId: env['SP_API_CLIENT_ID'] } : {}),
+    ...(env['SP_API_CLIENT_SECRET'] ? { clientSecret: env['SP_API_CLIENT_SECRET'] } : {}),
+    ...(env['SP_API_REFRESH_TOKEN'] ? { refreshToken: env['SP_API_REFRESH_TOKEN'] } : {}),
+    ...(env['SP_API_ACCESS_TOKEN'] ? { accessToken: env['SP_API_ACCESS_TOKEN'] } : {}),
+    ...(env['SP_API_REGION'] ? { region: parseRegion('SP_API_REGION', env['SP_API_REGION']) } : {}),
+    ...(env['SP_API_BASE_URL'] ? { baseUrl: env['SP_API_BASE_URL'] } : {}),
+    ...(env['SP_API_SELLER_ID'] ? { sellerId: env['SP_API_SELLER_ID'] } : {}),
+    ...(envMarketplaceIds ? { marketplaceIds: envMarketplaceIds } : {})
+  };
+
+  if (flags['region']) {
+    resolved.region = parseRegion('--region', flags['region'] as string);
+  }
+  if (flags['base-url']) {
+    resolved.baseUrl = flags['base-url'] as string;
+  }
+  if (flags['sandbox']) {
+    resolved.sandbox = true;
+  }
+  return resolved;
+}
+
+/**
+ * Builds search parameters from the search flags, falling back to the profile's seller and marketplaces
+ * 
+ * @internal
+ */
+function buildSearchParams(flags: Record<string, unknown>, profile: CliProfile): SearchListingsItemsQueryParams {
+  const params: Record<string, unknown> = {};
+  for (const [param, { flag, kind }] of Object.entries(SEARCH_FLAGS)) {
+    const value = flags[flag] as string | string[] | undefined;
+    if (value === undefined) {
+      continue;
+    }
+    if (kind === 'list') {
+      params[param] = splitList(value as string[]);
+    } else if (kind === 'number') {
+      params[param] = parseNumberFlag(flag, value as string);
+    } else {
+      params[param] = value;
+    }
+  }
+
+  if (params['sellerId'] === undefined && profile.sellerId) {
+    params['sellerId'] = profile.sellerId;
+  }
+  if (params['marketplaceIds'] === undefined && profile.marketplaceIds) {
+    params['marketplaceIds'] = profile.marketplaceIds;
+  }
+  return params as unknown as SearchListingsItemsQueryParams;
+}
+
+/**
+ * Creates the client from the resolved connection settings
+ * 
+ * @internal
+ */
+function createClient(
+  profile: CliProfile,
+  params: SearchListingsItemsQueryParams,
+  onWarning: (message: string) => void
+): AmazonSpApiClient {
+  const { clientId, clientSecret, refreshToken, accessToken } = profile;
+  const auth: Pick<SpApiClientConfig, 'lwa' | 'accessTokenProvider'> = {};
+  if (accessToken) {
+    auth.accessTokenProvider = { getAccessToken: async () => accessToken };
+  } else if (clientId && clientSecret && refreshToken) {
+    auth.lwa = { clientId, clientSecret, refreshToken };
+  } else {
+    throw new CliError(
+      'No credentials found: set SP_API_CLIENT_ID, SP_API_CLIENT_SECRET and SP_API_REFRESH_TOKEN (or SP_API_ACCESS_TOKEN), or add them to a profile',
+      CLI_EXIT_CODES.AUTH
+    );
+  }
+
+  const config = { ...auth, retry: { maxAttempts: 5 }, rateLimiter: true, onWarning };
+  if (profile.baseUrl) {
+    return new AmazonSpApiClient({ ...config, baseUrl: profile.baseUrl, ...(profile.region ? { region: profile.region } : {}) });
+  }
+
+  const region = profile.region || getMarketplace(params.marketplaceIds[0] || '')?.region;
+  if (!region) {
+    throw new CliError('--region: cannot be inferred from the marketplaces; pass --region or --base-url', CLI_EXIT_CODES.VALIDATION);
+  }
+  return AmazonSpApiClient.forRegion(region, { ...config, sandbox: profile.sandbox === true });
+}
+
+/**
+ * Maps an error to an exit code
+ * 
+ * @internal
+ */
+function getExitCode(error: unknown): number {
+  if (error instanceof CliError) {
+    return error.exitCode;
+  }
+  if (error instanceof SpApiValidationError) {
+    return error.kind === 'request' ? CLI_EXIT_CODES.VALIDATION : CLI_EXIT_CODES.ERROR;
+  }
+  if (error instanceof SpApiClientError) {
+    if (error.isRateLimitError()) {
+      return CLI_EXIT_CODES.THROTTLED;
+    }
+    if (error.isAuthError() || LWA_AUTH_ERROR_CODES.some(code => error.hasErrorCode(code))) {
+      return CLI_EXIT_CODES.AUTH;
+    }
+    if (error.isServerError() || error.isNetworkError()) {
+      return CLI_EXIT_CODES.SERVER;
+    }
+  }
+  return CLI_EXIT_CODES.ERROR;
+}
+
+/**
+ * Formats an error for `stderr`, including the API's error messages and request ID
+ * 
+ * @internal
+ */
+function formatError(error: unknown): string {
+  if (error instanceof SpApiValidationError && error.kind === 'request') {
+    return formatValidationError(error);
+  }
+  if (error instanceof SpApiClientError) {
+    const requestId = error.requestId ? ` (request ${error.requestId})` : '';
+    const details = error.errors.length ? `: ${error.errors.map(e => e.message).join('; ')}` : '';
+    return `${error.message}${requestId}${details}`;
+  }
+  return (error as Error).message;
+}
+
+/**
+ * Formats rows as a table with aligned columns
+ * 
+ * @internal
+ */
+function formatTable(rows: ExportRow[]): string {
+  const cells = [
+    OUTPUT_COLUMNS,
+    ...rows.map(row => OUTPUT_COLUMNS.map(column => {
+      const value = row[column];
+      return value === null || value === undefined ? '' : Array.isArray(value) ? value.join(',') : String(value);
+    }))
+  ];
+  const widths = OUTPUT_COLUMNS.map((_, column) => Math.max(...cells.map(row => row[column]!.length)));
+  return cells
+    .map(row => row.map((cell, column) => cell.padEnd(widths[column]!)).join('  ').trimEnd())
+    .join('\n') + '\n';
+}
+
+/**
+ * Runs the search and writes every item in the requested format
+ * 
+ * @internal
+ */
+async function writeResults(
+  items: AsyncIterable<ListingItem>,
+  format: CliOutputFormat,
+  stdout: TextOutputStream
+): Promise<void> {
+  const exportOptions = { shape: 'marketplace' as const, columns: OUTPUT_COLUMNS };
+
+  if (format === 'table') {
+    // Column widths depend on every row, so the table is written once complete
+    const rows: ExportRow[] = [];
+    for await (const row of flattenListingItems(items, exportOptions)) {
+      rows.push(row);
+    }
+    await writeText(stdout, formatTable(rows));
+    return;
+  }
+
+  if (format === 'csv') {
+    await writeListingItemsCsv(items, stdout, exportOptions);
+    return;
+  }
+
+  if (format === 'ndjson') {
+    for await (const item of items) {
+      await writeText(stdout, JSON.stringify(item) + '\n');
+    }
+    return;
+  }
+
+  // A page failing midway would leave a truncated array, so nothing is written until every page is in
+  const entries: string[] = [];
+  for await (const item of items) {
+    entries.push(JSON.stringify(item, null, 2).replace(/^/gm, '  '));
+  }
+  await writeText(stdout, entries.length ? `[\n${entries.join(',\n')}\n]\n` : '[]\n');
+}
+
+/**
+ * Runs the `sp-listings` command-line tool
+ * 
+ * @param argv - Arguments after the program name, e.g. `process.argv.slice(2)`
+ * @param io - Output streams and environment variables (defaults to those of the process)
+ * @returns Promise resolving to the exit code, one of {@link CLI_EXIT_CODES}
+ * 
+ * @remarks
+ * Every {@link SearchListingsItemsQueryParams} field has a kebab-case flag,
+ * e.g. `sellerId` is `--seller-id`. Parameters are validated with
+ * {@link validateSearchParams} before any credentials are needed, and each
+ * failure is reported against its flag. Results are paged through until the
+ * API returns no further page token, or `--max-pages` or `--max-items` is
+ * reached. NDJSON and CSV are written as each page arrives. JSON and the table
+ * are written once every page has been received, so a failing page leaves
+ * nothing on `stdout` for those formats.
+ * 
+ * Throttled requests are retried up to 5 times before the command gives up
+ * with the throttled exit code. Errors are written to `stderr`, never to
+ * `stdout`, so output can be piped safely.
+ * 
+ * @example
+ * ```typescript
+ * // sp-listings search --seller-id A1B2C3D4E5F6G7 --marketplace-ids ATVPDKIKX0DER --with-status BUYABLE --format csv
+ * process.exitCode = await runCli(process.argv.slice(2));
+ * ```
+ */
+export async function runCli(
+  argv: readonly string[],
+  io: CliEnvironment = { stdout: process.stdout, stderr: process.stderr, env: process.env }
+): Promise<number> {
+  const { stdout, stderr, env } = io;
+
+  try {
+    const options: Record<string, { type: 'string' | 'boolean'; multiple?: boolean }> = {
+      'format': { type: 'string' },
+      'max-pages': { type: 'string' },
+      'max-items': { type: 'string' },
+      'profile': { type: 'string' },
+      'profile-file': { type: 'string' },
+      'region': { type: 'string' },
+      'base-url': { type: 'string' },
+      'sandbox': { type: 'boolean' },
+      'help': { type: 'boolean' }
+    };
+    for (const { flag, kind } of Object.values(SEARCH_FLAGS)) {
+      options[flag] = kind === 'list' ? { type: 'string', multiple: true } : { type: 'string' };
+    }
+
+    let parsed: ReturnType<typeof parseArgs>;
+    try {
+      parsed = parseArgs({ args: [...argv], options, allowPositionals: true, strict: true });
+    } catch (error) {
+      throw new CliError((error as Error).message, CLI_EXIT_CODES.VALIDATION);
+    }
+    const { values: flags, positionals } = parsed;
+
+    if (flags['help'] || positionals.length === 0) {
+      await writeText(flags['help'] ? stdout : stderr, USAGE);
+      return flags['help'] ? CLI_EXIT_CODES.OK : CLI_EXIT_CODES.VALIDATION;
+    }
+    if (positionals[0] !== 'search' || positionals.length > 1) {
+      throw new CliError(`Unknown command: ${positionals.join(' ')}. Run sp-listings --help for usage`, CLI_EXIT_CODES.VALIDATION);
+    }
+
+    const format = (flags['format'] as string | undefined) || 'table';
+    if (!OUTPUT_FORMATS.includes(format as CliOutputFormat)) {
+      throw new CliError(`--format: must be one of ${OUTPUT_FORMATS.join(', ')}, got "${format}"`, CLI_EXIT_CODES.VALIDATION);
+    }
+    const maxPages = flags['max-pages'] === undefined ? undefined : parseNumberFlag('max-pages', flags['max-pages'] as string);
+    const maxItems = flags['max-items'] === undefined ? undefined : parseNumberFlag('max-items', flags['max-items'] as string);
+
+    const profile = await resolveProfile(flags, env);
+    const params = buildSearchParams(flags, profile);
+
+    const { error } = validateSearchParams(params);
+    if (error) {
+      throw createSpApiValidationError('request', error);
+    }
+
+    const client = createClient(profile, params, message => { stderr.write(`warning: ${message}\n`); });
+    const items = client.iterateListingsItems(params, {
+      ...(maxPages !== undefined ? { maxPages } : {}),
+      ...(maxItems !== undefined ? { maxItems } : {})
+    });
+    await writeResults(items, format as CliOutputFormat, stdout);
+    return CLI_EXIT_CODES.OK;
+  } catch (error) {
+    const message = formatError(error);
+    stderr.write(`sp-listings: ${message.replace(/\n/g, '\nsp-listings: ')}\n`);
+    return getExitCode(error);
+  }
+}
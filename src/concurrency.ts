@@ -0,0 +1,56 @@
+/**
+ * Concurrency utilities for Amazon SP-API Client
+ * 
+ * This module contains the bounded worker pool used by operations that fan out
+ * into several requests, such as multi-marketplace searches.
+ * 
+ * @group Concurrency
+ */
+
+/**
+ * Runs an async worker over every item, with at most `concurrency` workers running at once
+ * 
+ * @param items - Items to process
+ * @param concurrency - Maximum number of workers running at the same time
+ * @param worker - Function called once per item with the item and its index
+ * @returns Settled result of every item, in input order. Rejections never stop other items
+ * @throws {Error} When concurrency is not a positive integer
+ * 
+ * @example
+ * ```typescript
+ * const results = await mapWithConcurrency(skus, 2, sku => client.getListingsItem({
+ *   sellerId: 'A1B2C3D4E5F6G7',
+ *   sku,
+ *   marketplaceIds: ['ATVPDKIKX0DER']
+ * }));
+ * 
+ * const failed = results.filter(result => result.status === 'rejected');
+ * ```
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`concurrency must be a positive integer: ${concurrency}`);
+  }
+
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  // Each runner takes the next unclaimed index until none are left
+  const run = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await worker(items[index]!, index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, run));
+  return results;
+}
@@ -0,0 +1,49 @@
+/**
+ * CSV formatting for Amazon SP-API Client
+ * 
+ * This module contains the RFC 4180 formatting shared by the CSV exports.
+ * 
+ * @group CSV
+ */
+
+/**
+ * Line separator used between CSV records, as required by RFC 4180
+ */
+export const CSV_LINE_SEPARATOR = '\r\n';
+
+/**
+ * Formats a single CSV field
+ * 
+ * @param value - Field value; arrays are joined with `;` and objects serialized as JSON
+ * @returns The field, quoted when it contains a comma, quote or line break
+ * 
+ * @example
+ * ```typescript
+ * formatCsvField('a "b", c'); // '"a ""b"", c"'
+ * formatCsvField(undefined);  // ''
+ * ```
+ */
+export function formatCsvField(value: unknown): string {
+  let text: string;
+  if (value === undefined || value === null) {
+    text = '';
+  } else if (Array.isArray(value)) {
+    text = value.map(item => typeof item === 'object' && item !== null ? JSON.stringify(item) : String(item)).join(';');
+  } else if (typeof value === 'object') {
+    text = value instanceof Date ? value.toISOString() : JSON.stringify(value);
+  } else {
+    text = String(value);
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Formats a CSV record, without the line separator
+ * 
+ * @param values - Field values, in column order
+ * @returns The formatted record
+ */
+export function formatCsvRow(values: readonly unknown[]): string {
+  return values.map(formatCsvField).join(',');
+}
@@ -0,0 +1,477 @@
+/**
+ * Listing snapshot diffing for Amazon SP-API Client
+ * 
+ * This module compares two snapshots of listing items and describes what
+ * changed as typed, JSON-serializable change records.
+ * 
+ * @group Diff
+ */
+
+import type {
+  ListingChange,
+  ListingChangeKind,
+  ListingDiffOptions,
+  ListingIssue,
+  ListingItem,
+  ListingStatus,
+  MarketplaceId,
+  Money,
+  Offer,
+  Points
+} from './types.js';
+import { mergeListingItemsByMarketplace } from './marketplace-merge.js';
+
+/**
+ * Compares two JSON values structurally
+ * 
+ * @internal
+ */
+function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null || Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+  if (Array.isArray(a)) {
+    const other = b as unknown[];
+    return a.length === other.length && a.every((item, i) => isDeepEqual(item, other[i]));
+  }
+
+  const objectA = a as Record<string, unknown>;
+  const objectB = b as Record<string, unknown>;
+  const keys = Object.keys(objectA).filter(key => objectA[key] !== undefined);
+  return keys.length === Object.keys(objectB).filter(key => objectB[key] !== undefined).length
+    && keys.every(key => isDeepEqual(objectA[key], objectB[key]));
+}
+
+/**
+ * Combines lists of values keyed within an item, later values replacing earlier ones with the same key
+ * 
+ * @returns The combined values, or undefined when no list is present
+ * 
+ * @internal
+ */
+function combineByKey<T>(lists: Array<T[] | undefined>, getKey: (value: T) => string): T[] | undefined {
+  const present = lists.filter((list): list is T[] => list !== undefined);
+  if (present.length === 0) {
+    return undefined;
+  }
+
+  const combined = new Map<string, T>();
+  for (const value of present.flat()) {
+    combined.set(getKey(value), value);
+  }
+  return [...combined.values()];
+}
+
+/**
+ * Combines attributes, keeping every distinct entry of each attribute
+ * 
+ * @internal
+ */
+function combineAttributes(lists: Array<Record<string, unknown> | undefined>): Record<string, unknown> | undefined {
+  const present = lists.filter((attributes): attributes is Record<string, unknown> => attributes !== undefined);
+  if (present.length === 0) {
+    return undefined;
+  }
+
+  const combined: Record<string, unknown> = {};
+  for (const attributes of present) {
+    for (const [name, entries] of Object.entries(attributes)) {
+      const existing = combined[name];
+      combined[name] = Array.isArray(existing) && Array.isArray(entries)
+        ? [...existing, ...entries.filter(entry => !existing.some(other => isDeepEqual(other, entry)))]
+        : entries;
+    }
+  }
+  return combined;
+}
+
+/**
+ * Combines the occurrences of a SKU returned for different marketplaces into one item
+ * 
+ * @internal
+ */
+function combineOccurrences(items: ListingItem[]): ListingItem {
+  if (items.length === 1) {
+    return items[0]!;
+  }
+
+  const item: ListingItem = { ...items[items.length - 1]! };
+  const summaries = combineByKey(items.map(i => i.summaries), s => s.marketplaceId);
+  const offers = combineByKey(items.map(i => i.offers), getOfferKey);
+  const fulfillmentAvailability = combineByKey(items.map(i => i.fulfillmentAvailability), f => f.fulfillmentChannelCode);
+  const issues = combineByKey(items.map(i => i.issues), getIssueKey);
+  const attributes = combineAttributes(items.map(i => i.attributes));
+
+  if (summaries) {
+    item.summaries = summaries;
+  }
+  if (offers) {
+    item.offers = offers;
+  }
+  if (fulfillmentAvailability) {
+    item.fulfillmentAvailability = fulfillmentAvailability;
+  }
+  if (issues) {
+    item.issues = issues;
+  }
+  if (attributes) {
+    item.attributes = attributes;
+  }
+  return item;
+}
+
+/**
+ * Indexes items by SKU, combining the occurrences of a SKU returned for different marketplaces
+ * 
+ * @remarks
+ * Snapshots built from one search per marketplace hold a SKU once per
+ * marketplace. Occurrences are grouped by the marketplace of their first
+ * summary and merged with {@link mergeListingItemsByMarketplace}, so a SKU
+ * repeated for the same marketplace keeps its last occurrence, and the
+ * occurrences for different marketplaces are then combined.
+ * 
+ * @internal
+ */
+function indexBySku(items: Iterable<ListingItem>): Map<string, ListingItem> {
+  const skus = new Set<string>();
+  const itemsByMarketplace = new Map<MarketplaceId, ListingItem[]>();
+  for (const item of items) {
+    const marketplaceId = item.summaries?.[0]?.marketplaceId || '';
+    const group = itemsByMarketplace.get(marketplaceId);
+    if (group) {
+      group.push(item);
+    } else {
+      itemsByMarketplace.set(marketplaceId, [item]);
+    }
+    skus.add(item.sku);
+  }
+
+  const merged = new Map(mergeListingItemsByMarketplace([...itemsByMarketplace]).map(entry => [entry.sku, entry]));
+  // Occurrences are combined in marketplace order, so attribute entries do not depend on the order of the searches
+  return new Map([...skus].map(sku => {
+    const occurrences = Object.entries(merged.get(sku)!.items).sort(([a], [b]) => a.localeCompare(b));
+    return [sku, combineOccurrences(occurrences.map(([, item]) => item))];
+  }));
+}
+
+/**
+ * Gets the marketplaces an item has summaries for
+ * 
+ * @internal
+ */
+function getSummaryMarketplaceIds(item: ListingItem): string[] {
+  return [...new Set((item.summaries || []).map(s => s.marketplaceId))];
+}
+
+/**
+ * Gets the keys of two maps, those of the first in order followed by the rest of the second
+ * 
+ * @internal
+ */
+function unionKeys<K>(a: Map<K, unknown>, b: Map<K, unknown>): K[] {
+  return [...new Set([...a.keys(), ...b.keys()])];
+}
+
+/**
+ * Gets the key identifying an offer within an item
+ * 
+ * @internal
+ */
+function getOfferKey(offer: Offer): string {
+  return `${offer.marketplaceId}|${offer.offerType}|${offer.audience?.audienceType || ''}`;
+}
+
+/**
+ * Gets the key identifying an issue within an item
+ * 
+ * @remarks
+ * Messages often embed values, so issues are matched on their code and
+ * attributes only; an issue whose message changes is not reported.
+ * 
+ * @internal
+ */
+function getIssueKey(issue: ListingIssue): string {
+  return `${issue.code}|${[...(issue.attributeNames || [])].sort().join(',')}`;
+}
+
+/**
+ * Checks whether two amounts of money are the same
+ * 
+ * @internal
+ */
+function isSameMoney(a: Money | undefined, b: Money | undefined): boolean {
+  if (!a || !b) {
+    return a === b;
+  }
+  return a.currencyCode === b.currencyCode && Number(a.amount) === Number(b.amount);
+}
+
+/**
+ * Checks whether two points entries are the same
+ * 
+ * @internal
+ */
+function isSamePoints(a: Points | undefined, b: Points | undefined): boolean {
+  if (!a || !b) {
+    return a === b;
+  }
+  return a.pointsNumber === b.pointsNumber && isSameMoney(a.pointsMonetaryValue, b.pointsMonetaryValue);
+}
+
+/**
+ * Subtracts two decimal amounts without floating-point noise
+ * 
+ * @internal
+ */
+function subtractAmounts(after: string, before: string): string {
+  const decimals = Math.max(after.split('.')[1]?.length || 0, before.split('.')[1]?.length || 0);
+  return (Number(after) - Number(before)).toFixed(decimals);
+}
+
+/**
+ * Compares the summary statuses of an item per marketplace
+ * 
+ * @internal
+ */
+function diffStatuses(sku: string, before: ListingItem, after: ListingItem, changes: ListingChange[]): void {
+  const statusesBefore = new Map((before.summaries || []).map(s => [s.marketplaceId, [...s.status].sort()]));
+  const statusesAfter = new Map((after.summaries || []).map(s => [s.marketplaceId, [...s.status].sort()]));
+
+  for (const marketplaceId of unionKeys(statusesBefore, statusesAfter)) {
+    const old: ListingStatus[] = statusesBefore.get(marketplaceId) || [];
+    const current: ListingStatus[] = statusesAfter.get(marketplaceId) || [];
+    if (!isDeepEqual(old, current)) {
+      changes.push({
+        kind: 'status',
+        sku,
+        marketplaceId,
+        before: old,
+        after: current,
+        added: current.filter(status => !old.includes(status)),
+        removed: old.filter(status => !current.includes(status))
+      });
+    }
+  }
+}
+
+/**
+ * Compares the offer prices and points of an item per marketplace, offer type and audience
+ * 
+ * @internal
+ */
+function diffOffers(sku: string, before: ListingItem, after: ListingItem, changes: ListingChange[]): void {
+  const offersBefore = new Map((before.offers || []).map(o => [getOfferKey(o), o]));
+  const offersAfter = new Map((after.offers || []).map(o => [getOfferKey(o), o]));
+
+  for (const key of unionKeys(offersBefore, offersAfter)) {
+    const old = offersBefore.get(key);
+    const current = offersAfter.get(key);
+    const offer = (current || old)!;
+    const identity = {
+      sku,
+      marketplaceId: offer.marketplaceId,
+      offerType: offer.offerType,
+      ...(offer.audience?.audienceType ? { audience: offer.audience.audienceType } : {})
+    };
+
+    if (!isSameMoney(old?.price, current?.price)) {
+      changes.push({
+        kind: 'price',
+        ...identity,
+        ...(old ? { before: old.price } : {}),
+        ...(current ? { after: current.price } : {}),
+        ...(old && current && old.price.currencyCode === current.price.currencyCode
+          ? { difference: subtractAmounts(current.price.amount, old.price.amount) }
+          : {})
+      });
+    }
+    if (!isSamePoints(old?.points, current?.points)) {
+      changes.push({
+        kind: 'points',
+        ...identity,
+        ...(old?.points ? { before: old.points } : {}),
+        ...(current?.points ? { after: current.points } : {})
+      });
+    }
+  }
+}
+
+/**
+ * Compares the fulfillment quantities of an item per channel
+ * 
+ * @internal
+ */
+function diffFulfillment(sku: string, before: ListingItem, after: ListingItem, changes: ListingChange[]): void {
+  const quantitiesBefore = new Map((before.fulfillmentAvailability || []).map(f => [f.fulfillmentChannelCode, f.quantity]));
+  const quantitiesAfter = new Map((after.fulfillmentAvailability || []).map(f => [f.fulfillmentChannelCode, f.quantity]));
+
+  for (const fulfillmentChannelCode of unionKeys(quantitiesBefore, quantitiesAfter)) {
+    const old = quantitiesBefore.get(fulfillmentChannelCode);
+    const current = quantitiesAfter.get(fulfillmentChannelCode);
+    if (old !== current) {
+      changes.push({
+        kind: 'fulfillment-quantity',
+        sku,
+        fulfillmentChannelCode,
+        ...(old !== undefined ? { before: old } : {}),
+        ...(current !== undefined ? { after: current } : {})
+      });
+    }
+  }
+}
+
+/**
+ * Compares the issues of an item
+ * 
+ * @internal
+ */
+function diffIssues(sku: string, before: ListingItem, after: ListingItem, changes: ListingChange[]): void {
+  const issuesBefore = new Map((before.issues || []).map(i => [getIssueKey(i), i]));
+  const issuesAfter = new Map((after.issues || []).map(i => [getIssueKey(i), i]));
+
+  for (const [key, issue] of issuesAfter) {
+    if (!issuesBefore.has(key)) {
+      changes.push({ kind: 'issue-added', sku, issue });
+    }
+  }
+  for (const [key, issue] of issuesBefore) {
+    if (!issuesAfter.has(key)) {
+      changes.push({ kind: 'issue-resolved', sku, issue });
+    }
+  }
+}
+
+/**
+ * Compares the attributes of an item
+ * 
+ * @internal
+ */
+function diffAttributes(
+  sku: string,
+  before: ListingItem,
+  after: ListingItem,
+  ignore: ReadonlySet<string>,
+  changes: ListingChange[]
+): void {
+  const attributesBefore = new Map(Object.entries(before.attributes || {}));
+  const attributesAfter = new Map(Object.entries(after.attributes || {}));
+
+  for (const attribute of unionKeys(attributesBefore, attributesAfter)) {
+    const old = attributesBefore.get(attribute);
+    const current = attributesAfter.get(attribute);
+    if (!ignore.has(attribute) && !isDeepEqual(old, current)) {
+      changes.push({
+        kind: 'attribute',
+        sku,
+        attribute,
+        ...(old !== undefined ? { before: old } : {}),
+        ...(current !== undefined ? { after: current } : {})
+      });
+    }
+  }
+}
+
+/**
+ * Compares two snapshots of listing items
+ * 
+ * @param before - Items of the old snapshot
+ * @param after - Items of the new snapshot
+ * @param options - Kinds of change to report and attributes to ignore
+ * @returns Changes, grouped by SKU in the order of the new snapshot followed by removed items
+ * 
+ * @remarks
+ * Items are matched by SKU. A snapshot may hold a SKU once per marketplace,
+ * as when it is built from one search per marketplace; those occurrences are
+ * combined first, so each marketplace's summary, offers and attribute entries
+ * are compared. An added or removed item is reported once, without
+ * the changes of its contents. For items in both snapshots, each kind of data
+ * (summaries, offers, fulfillment availability, issues, attributes) is only
+ * compared when both snapshots include it, so snapshots taken with different
+ * `includedData` do not report everything as added or removed.
+ * 
+ * Offers are matched by marketplace, offer type and audience, and prices are
+ * compared numerically, so `'10.0'` and `'10.00'` are the same. Issues are
+ * matched by code and attribute names. Attributes are compared as a whole,
+ * entry by entry.
+ * 
+ * Change records are plain objects, so the result can be passed to
+ * `JSON.stringify` as it is.
+ * 
+ * @example
+ * ```typescript
+ * const changes = diffListingItems(yesterday, today, { kinds: ['price', 'status', 'issue-added'] });
+ * 
+ * for (const change of changes) {
+ *   if (change.kind === 'price' && change.difference?.startsWith('-')) {
+ *     console.log(`${change.sku} price dropped by ${change.difference.slice(1)} in ${change.marketplaceId}`);
+ *   } else if (change.kind === 'status' && change.removed.includes('BUYABLE')) {
+ *     console.log(`${change.sku} is no longer buyable in ${change.marketplaceId}`);
+ *   }
+ * }
+ * ```
+ */
+export function diffListingItems(
+  before: Iterable<ListingItem>,
+  after: Iterable<ListingItem>,
+  options: ListingDiffOptions = {}
+): ListingChange[] {
+  const itemsBefore = indexBySku(before);
+  const itemsAfter = indexBySku(after);
+  const ignore = new Set(options.ignoreAttributes || []);
+  const changes: ListingChange[] = [];
+
+  for (const sku of unionKeys(itemsAfter, itemsBefore)) {
+    const old = itemsBefore.get(sku);
+    const current = itemsAfter.get(sku);
+
+    if (!old) {
+      changes.push({ kind: 'item-added', sku, marketplaceIds: getSummaryMarketplaceIds(current!) });
+      continue;
+    }
+    if (!current) {
+      changes.push({ kind: 'item-removed', sku, marketplaceIds: getSummaryMarketplaceIds(old) });
+      continue;
+    }
+
+    if (old.summaries && current.summaries) {
+      diffStatuses(sku, old, current, changes);
+    }
+    if (old.offers && current.offers) {
+      diffOffers(sku, old, current, changes);
+    }
+    if (old.fulfillmentAvailability && current.fulfillmentAvailability) {
+      diffFulfillment(sku, old, current, changes);
+    }
+    if (old.issues && current.issues) {
+      diffIssues(sku, old, current, changes);
+    }
+    if (old.attributes && current.attributes) {
+      diffAttributes(sku, old, current, ignore, changes);
+    }
+  }
+
+  return options.kinds ? filterListingChanges(changes, options.kinds) : changes;
+}
+
+/**
+ * Keeps the changes of some kinds
+ * 
+ * @param changes - Changes from {@link diffListingItems}
+ * @param kinds - Kinds to keep
+ * @returns The matching changes, in order, typed by kind
+ * 
+ * @example
+ * ```typescript
+ * const priceChanges = filterListingChanges(changes, ['price']); // PriceChange[]
+ * const drops = priceChanges.filter(change => Number(change.difference) < 0);
+ * ```
+ */
+export function filterListingChanges<K extends ListingChangeKind>(
+  changes: readonly ListingChange[],
+  kinds: readonly K[]
+): Extract<ListingChange, { kind: K }>[] {
+  return changes.filter((change): change is Extract<ListingChange, { kind: K }> => kinds.includes(change.kind as K));
+}
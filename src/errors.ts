@@ -7,7 +7,8 @@
  * @group Errors
  */
 
-import type { SpApiError } from './types.js';
+import type { ValidationError } from 'joi';
+import type { HttpResponse, SpApiError, ValidationErrorDetail, ValidationErrorKind } from './types.js';
 
 /**
  * Custom error class for SP-API related errors
@@ -61,6 +62,16 @@ export class SpApiClientError extends Error {
    */
   public readonly rateLimit?: string | undefined;
 
+  /**
+   * Delay requested by the API's `Retry-After` header, in milliseconds
+   */
+  public readonly retryAfterMs?: number | undefined;
+
+  /**
+   * Number of attempts made before this error was thrown
+   */
+  public attempts: number;
+
   /**
    * Creates a new SpApiClientError instance
    * 
@@ -69,6 +80,7 @@ export class SpApiClientError extends Error {
    * @param requestId - Optional Amazon request ID
    * @param rateLimit - Optional rate limit information
    * @param message - Optional custom error message
+   * @param retryAfterMs - Optional delay requested by the `Retry-After` header, in milliseconds
    * 
    * @example
    * ```typescript
@@ -85,7 +97,8 @@ export class SpApiClientError extends Error {
     errors: SpApiError[], 
     requestId?: string, 
     rateLimit?: string, 
-    message?: string
+    message?: string,
+    retryAfterMs?: number
   ) {
     super(message || `SP-API Error: ${statusCode}`);
     this.name = 'SpApiClientError';
@@ -93,6 +106,8 @@ export class SpApiClientError extends Error {
     this.errors = errors;
     this.requestId = requestId;
     this.rateLimit = rateLimit;
+    this.retryAfterMs = retryAfterMs;
+    this.attempts = 1;
   }
 
   /**
@@ -132,7 +147,8 @@ export class SpApiClientError extends Error {
    * //   "message": "SP-API Error: 500",
    * //   "statusCode": 500,
    * //   "errors": [{ "code": "InternalError", "message": "Server error" }],
-   * //   "requestId": "req-123"
+   * //   "requestId": "req-123",
+   * //   "attempts": 1
    * // }
    * ```
    */
@@ -143,7 +159,9 @@ export class SpApiClientError extends Error {
       statusCode: this.statusCode,
       errors: this.errors,
       requestId: this.requestId,
-      rateLimit: this.rateLimit
+      rateLimit: this.rateLimit,
+      retryAfterMs: this.retryAfterMs,
+      attempts: this.attempts
     };
   }
 
@@ -275,6 +293,191 @@ export class SpApiClientError extends Error {
   public hasErrorCode(code: string): boolean {
     return this.errors.some(error => error.code === code);
   }
+
+  /**
+   * Checks if the error was caused by a network failure (no response received)
+   * 
+   * @returns True if the error has the `NETWORK_ERROR` code
+   * 
+   * @example
+   * ```typescript
+   * const error = new SpApiClientError(0, [
+   *   { code: 'NETWORK_ERROR', message: 'Network error occurred while making the request' }
+   * ]);
+   * console.log(error.isNetworkError()); // true
+   * ```
+   */
+  public isNetworkError(): boolean {
+    return this.hasErrorCode('NETWORK_ERROR');
+  }
+}
+
+/**
+ * Error thrown when client configuration or operation parameters fail validation
+ * 
+ * @group Classes
+ * @remarks
+ * Validation collects every failure, so `details` lists all offending fields of a
+ * single call. `kind` tells configuration problems (thrown by the constructor and
+ * factories) apart from invalid operation parameters, for which no request is sent,
+ * and from response bodies that do not match the expected shape (see the
+ * `responseValidation` option).
+ * 
+ * @example
+ * ```typescript
+ * import { SpApiValidationError } from './errors.js';
+ * 
+ * try {
+ *   await client.searchListingsItems({ sellerId: '', marketplaceIds: [], pageSize: 50 });
+ * } catch (error) {
+ *   if (error instanceof SpApiValidationError) {
+ *     console.log(error.kind); // 'request'
+ *     error.details.forEach(d => console.log(d.path, d.rule, d.message));
+ *   }
+ * }
+ * ```
+ */
+export class SpApiValidationError extends Error {
+  /**
+   * Whether the client configuration, an operation's parameters or a response body were invalid
+   */
+  public readonly kind: ValidationErrorKind;
+
+  /**
+   * Every validation failure, in the order they were found
+   */
+  public readonly details: ValidationErrorDetail[];
+
+  /**
+   * Creates a new SpApiValidationError instance
+   * 
+   * @param kind - Whether configuration, request parameters or a response body were invalid
+   * @param details - Individual validation failures
+   * @param message - Optional custom error message
+   */
+  constructor(kind: ValidationErrorKind, details: ValidationErrorDetail[], message?: string) {
+    super(message || `${kind === 'config' ? 'Invalid configuration' : kind === 'response' ? 'Invalid response' : 'Validation failed'}: ${details.map(d => d.message).join(', ')}`);
+    this.name = 'SpApiValidationError';
+    this.kind = kind;
+    this.details = details;
+  }
+
+  /**
+   * Gets the failures of a single field
+   * 
+   * @param path - Field path, e.g. `pageSize` or `body.productType`
+   * @returns Failures whose path equals the given path
+   */
+  public getFieldErrors(path: string): ValidationErrorDetail[] {
+    return this.details.filter(detail => detail.path === path);
+  }
+
+  /**
+   * Checks whether a field failed validation
+   * 
+   * @param path - Field path, e.g. `pageSize` or `body.productType`
+   * @returns True if at least one failure refers to the field
+   */
+  public hasFieldError(path: string): boolean {
+    return this.details.some(detail => detail.path === path);
+  }
+
+  /**
+   * Returns a JSON representation of the error
+   * 
+   * @returns Object containing all error properties
+   * 
+   * @example
+   * ```typescript
+   * console.log(JSON.stringify(error.toJSON(), null, 2));
+   * // {
+   * //   "name": "SpApiValidationError",
+   * //   "message": "Validation failed: pageSize must be at most 20",
+   * //   "kind": "request",
+   * //   "details": [{ "path": "pageSize", "rule": "number.max", "value": 50, "message": "pageSize must be at most 20" }]
+   * // }
+   * ```
+   */
+  public toJSON(): Record<string, any> {
+    return {
+      name: this.name,
+      message: this.message,
+      kind: this.kind,
+      details: this.details
+    };
+  }
+}
+
+/**
+ * Formats a Joi error path as a property path
+ * 
+ * @param path - Joi path segments
+ * @returns Path such as `body.patches[0].op`
+ * 
+ * @internal
+ */
+function formatValidationPath(path: (string | number)[]): string {
+  return path.reduce<string>((formatted, segment) => {
+    if (typeof segment === 'number') {
+      return `${formatted}[${segment}]`;
+    }
+    return formatted ? `${formatted}.${segment}` : segment;
+  }, '');
+}
+
+/**
+ * Creates a SpApiValidationError from a Joi validation error
+ * 
+ * @param kind - Whether configuration, request parameters or a response body were validated
+ * @param error - Joi validation error
+ * @param message - Optional custom error message
+ * @returns SpApiValidationError with one detail per Joi failure
+ */
+export function createSpApiValidationError(
+  kind: ValidationErrorKind,
+  error: ValidationError,
+  message?: string
+): SpApiValidationError {
+  return new SpApiValidationError(kind, error.details.map(detail => ({
+    path: formatValidationPath(detail.path),
+    rule: detail.type,
+    value: detail.context?.value,
+    message: detail.message
+  })), message);
+}
+
+/**
+ * Error thrown by an HTTP transport when no response was received
+ * 
+ * @group Classes
+ * @remarks
+ * Transports throw this error for connection failures, timeouts and problems
+ * setting up the request. The client converts it into a SpApiClientError with
+ * the `NETWORK_ERROR` or `REQUEST_SETUP_ERROR` code.
+ * 
+ * @example
+ * ```typescript
+ * throw new HttpTransportError('network', 'connect ECONNREFUSED 127.0.0.1:443', originalError);
+ * ```
+ */
+export class HttpTransportError extends Error {
+  /**
+   * Whether the request failed in flight (`network`) or before being sent (`setup`)
+   */
+  public readonly kind: 'network' | 'setup';
+
+  /**
+   * Creates a new HttpTransportError instance
+   * 
+   * @param kind - Whether the request failed in flight or before being sent
+   * @param message - Description of the failure
+   * @param cause - Optional underlying error
+   */
+  constructor(kind: 'network' | 'setup', message: string, cause?: unknown) {
+    super(message, cause === undefined ? undefined : { cause });
+    this.name = 'HttpTransportError';
+    this.kind = kind;
+  }
 }
 
 /**
@@ -321,6 +524,107 @@ export function getHttpErrorMessage(statusCode: number): string {
   }
 }
 
+/**
+ * Parses a `Retry-After` header value into milliseconds
+ * 
+ * @param value - Header value, either a number of seconds or an HTTP date
+ * @param now - Current time in epoch milliseconds (defaults to `Date.now()`)
+ * @returns Delay in milliseconds, or undefined if the value cannot be parsed
+ * 
+ * @example
+ * ```typescript
+ * import { parseRetryAfter } from './errors.js';
+ * 
+ * console.log(parseRetryAfter('2')); // 2000
+ * console.log(parseRetryAfter('Wed, 21 Oct 2015 07:28:00 GMT')); // ms until that date, or 0
+ * console.log(parseRetryAfter('soon')); // undefined
+ * ```
+ */
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | undefined {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Creates a SpApiClientError from an HTTP error response
+ * 
+ * @param response - Transport-neutral response with a 4xx or 5xx status
+ * @returns SpApiClientError instance
+ * 
+ * @example
+ * ```typescript
+ * import { createSpApiErrorFromResponse } from './errors.js';
+ * 
+ * const error = createSpApiErrorFromResponse({
+ *   status: 429,
+ *   headers: { 'x-amzn-requestid': 'req-123', 'retry-after': '2' },
+ *   data: { errors: [{ code: 'QuotaExceeded', message: 'You exceeded your quota' }] }
+ * });
+ * console.log(error.isRateLimitError(), error.retryAfterMs); // true 2000
+ * ```
+ */
+export function createSpApiErrorFromResponse(response: HttpResponse): SpApiClientError {
+  const statusCode = response.status;
+  const responseData = response.data as any;
+  const requestId = response.headers['x-amzn-requestid'];
+  const rateLimit = response.headers['x-amzn-ratelimit-limit'];
+  const retryAfterMs = parseRetryAfter(response.headers['retry-after']);
+
+  // Try to extract SP-API error format
+  let errors: SpApiError[] = [];
+  if (responseData && responseData.errors && Array.isArray(responseData.errors)) {
+    errors = responseData.errors;
+  } else {
+    // Fallback error format
+    errors = [{
+      code: `HTTP_${statusCode}`,
+      message: getHttpErrorMessage(statusCode),
+      details: responseData ? (typeof responseData === 'string' ? responseData : JSON.stringify(responseData)) : undefined,
+    }];
+  }
+
+  return new SpApiClientError(statusCode, errors, requestId, rateLimit, undefined, retryAfterMs);
+}
+
+/**
+ * Creates a SpApiClientError from a transport failure
+ * 
+ * @param error - The error thrown by the transport
+ * @returns SpApiClientError with the `NETWORK_ERROR` or `REQUEST_SETUP_ERROR` code
+ * 
+ * @example
+ * ```typescript
+ * import { createSpApiErrorFromTransportError, HttpTransportError } from './errors.js';
+ * 
+ * const error = createSpApiErrorFromTransportError(new HttpTransportError('network', 'socket hang up'));
+ * console.log(error.isNetworkError()); // true
+ * ```
+ */
+export function createSpApiErrorFromTransportError(error: HttpTransportError): SpApiClientError {
+  if (error.kind === 'network') {
+    return new SpApiClientError(0, [{
+      code: 'NETWORK_ERROR',
+      message: 'Network error occurred while making the request',
+      details: error.message,
+    }]);
+  }
+
+  return new SpApiClientError(0, [{
+    code: 'REQUEST_SETUP_ERROR',
+    message: 'Error setting up the request',
+    details: error.message,
+  }]);
+}
+
 /**
  * Creates a SpApiClientError from an Axios error
  * 
@@ -343,38 +647,13 @@ export function getHttpErrorMessage(statusCode: number): string {
  */
 export function createSpApiErrorFromAxiosError(error: any): SpApiClientError {
   if (error.response) {
-    const statusCode = error.response.status;
-    const responseData = error.response.data as any;
-    const requestId = error.response.headers['x-amzn-requestid'] as string;
-    const rateLimit = error.response.headers['x-amzn-ratelimit-limit'] as string;
-
-    // Try to extract SP-API error format
-    let errors: SpApiError[] = [];
-    if (responseData && responseData.errors && Array.isArray(responseData.errors)) {
-      errors = responseData.errors;
-    } else {
-      // Fallback error format
-      errors = [{
-        code: `HTTP_${statusCode}`,
-        message: getHttpErrorMessage(statusCode) || error.message || `HTTP ${statusCode} error`,
-        details: responseData ? JSON.stringify(responseData) : undefined,
-      }];
-    }
-
-    return new SpApiClientError(statusCode, errors, requestId, rateLimit);
-  } else if (error.request) {
-    // Network error
-    return new SpApiClientError(0, [{
-      code: 'NETWORK_ERROR',
-      message: 'Network error occurred while making the request',
-      details: error.message,
-    }]);
-  } else {
-    // Request setup error
-    return new SpApiClientError(0, [{
-      code: 'REQUEST_SETUP_ERROR',
-      message: 'Error setting up the request',
-      details: error.message,
-    }]);
+    return createSpApiErrorFromResponse({
+      status: error.response.status,
+      headers: { ...error.response.headers },
+      data: error.response.data,
+    });
   }
+
+  const kind = error.request ? 'network' : 'setup';
+  return createSpApiErrorFromTransportError(new HttpTransportError(kind, error.message, error));
 }
@@ -0,0 +1,467 @@
+/**
+ * Listing item export for Amazon SP-API Client
+ * 
+ * This module flattens the nested, per-marketplace data of listing items into
+ * flat rows and streams them as CSV or NDJSON, for loading into a warehouse.
+ * 
+ * @group Export
+ */
+
+import type {
+  ExportRow,
+  ExportRowShape,
+  ExportValue,
+  ListingExportOptions,
+  ListingExportResult,
+  ListingItem,
+  TextOutputStream
+} from './types.js';
+import { SpApiValidationError } from './errors.js';
+import { getAttributeEntry } from './attributes.js';
+import { isSuppressingIssue } from './issues.js';
+import { CSV_LINE_SEPARATOR, formatCsvRow } from './csv.js';
+
+/**
+ * Columns of each row shape, in default output order
+ * 
+ * @remarks
+ * Money amounts are kept as the decimal strings the API returns, so no
+ * precision is lost. Issue counts, fulfillment quantities and channels are per
+ * item, as the API does not scope them to a marketplace.
+ */
+export const EXPORT_COLUMNS: Readonly<Record<ExportRowShape, readonly string[]>> = {
+  marketplace: [
+    'sku', 'marketplaceId', 'asin', 'productType', 'conditionType', 'status', 'fnSku',
+    'itemName', 'createdDate', 'lastUpdatedDate', 'mainImageUrl',
+    'price', 'priceCurrency', 'businessPrice', 'businessPriceCurrency',
+    'fulfillmentQuantity', 'fulfillmentChannels', 'parentSkus', 'childSkus',
+    'issueCount', 'errorCount', 'warningCount'
+  ],
+  offer: [
+    'sku', 'marketplaceId', 'asin', 'offerType', 'audience',
+    'price', 'priceCurrency', 'points', 'pointsValue', 'pointsValueCurrency'
+  ],
+  issue: [
+    'sku', 'code', 'severity', 'message', 'categories', 'attributeNames',
+    'enforcementActions', 'exemptionStatus', 'exemptionExpiryDate', 'suppressing'
+  ]
+};
+
+/**
+ * Prefix of the columns holding attribute values
+ */
+const ATTRIBUTE_COLUMN_PREFIX = 'attributes.';
+
+/**
+ * Converts an optional value into an export value
+ * 
+ * @internal
+ */
+function toValue(value: string | number | boolean | string[] | undefined): ExportValue {
+  return value === undefined ? null : value;
+}
+
+/**
+ * Gets every marketplace an item has data for, in the order first seen
+ * 
+ * @internal
+ */
+function getItemMarketplaceIds(item: ListingItem): string[] {
+  const ids = new Set<string>();
+  for (const source of [item.summaries, item.offers, item.relationships, item.productTypes]) {
+    for (const entry of source || []) {
+      ids.add(entry.marketplaceId);
+    }
+  }
+  return [...ids];
+}
+
+/**
+ * Resolves an attribute for a marketplace into an export value
+ * 
+ * @remarks
+ * Entries scoped to another marketplace are not used. Scalar `value`s are
+ * used as they are; structured entries, such as `purchasable_offer`, are
+ * serialized as JSON.
+ * 
+ * @internal
+ */
+function getAttributeColumnValue(
+  item: ListingItem,
+  name: string,
+  marketplaceId: string | undefined,
+  languageTag: string | undefined
+): ExportValue {
+  const entry = getAttributeEntry(item, name, {
+    ...(marketplaceId ? { marketplaceId } : {}),
+    ...(languageTag ? { languageTag } : {})
+  });
+  if (!entry || (marketplaceId && entry.marketplace_id !== undefined && entry.marketplace_id !== marketplaceId)) {
+    return null;
+  }
+  const value = entry.value;
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+  return JSON.stringify(value === undefined ? entry : value);
+}
+
+/**
+ * Builds the marketplace rows of an item, with every marketplace column
+ * 
+ * @internal
+ */
+function getMarketplaceRows(item: ListingItem): Array<[string | undefined, Record<string, ExportValue>]> {
+  const issues = item.issues || [];
+  const fulfillment = item.fulfillmentAvailability || [];
+  const quantities = fulfillment.map(f => f.quantity).filter((q): q is number => q !== undefined);
+  const marketplaceIds = getItemMarketplaceIds(item);
+
+  return (marketplaceIds.length ? marketplaceIds : [undefined]).map(marketplaceId => {
+    const summary = item.summaries?.find(s => s.marketplaceId === marketplaceId);
+    const offers = (item.offers || []).filter(o => o.marketplaceId === marketplaceId);
+    const consumer = offers.find(o => o.offerType === 'B2C');
+    const business = offers.find(o => o.offerType === 'B2B');
+    const relationships = item.relationships?.find(r => r.marketplaceId === marketplaceId)?.relationships || [];
+    const productType = summary?.productType || item.productTypes?.find(p => p.marketplaceId === marketplaceId)?.productType;
+
+    return [marketplaceId, {
+      sku: item.sku,
+      marketplaceId: toValue(marketplaceId),
+      asin: toValue(summary?.asin),
+      productType: toValue(productType),
+      conditionType: toValue(summary?.conditionType),
+      status: toValue(summary?.status),
+      fnSku: toValue(summary?.fnSku),
+      itemName: toValue(summary?.itemName),
+      createdDate: toValue(summary?.createdDate),
+      lastUpdatedDate: toValue(summary?.lastUpdatedDate),
+      mainImageUrl: toValue(summary?.mainImage?.link),
+      price: toValue(consumer?.price.amount),
+      priceCurrency: toValue(consumer?.price.currencyCode),
+      businessPrice: toValue(business?.price.amount),
+      businessPriceCurrency: toValue(business?.price.currencyCode),
+      fulfillmentQuantity: quantities.length ? quantities.reduce((sum, q) => sum + q, 0) : null,
+      fulfillmentChannels: fulfillment.map(f => f.fulfillmentChannelCode),
+      parentSkus: [...new Set(relationships.flatMap(r => r.parentSkus || []))],
+      childSkus: [...new Set(relationships.flatMap(r => r.childSkus || []))],
+      issueCount: issues.length,
+      errorCount: issues.filter(i => i.severity === 'ERROR').length,
+      warningCount: issues.filter(i => i.severity === 'WARNING').length
+    }];
+  });
+}
+
+/**
+ * Builds the offer rows of an item, with every offer column
+ * 
+ * @internal
+ */
+function getOfferRows(item: ListingItem): Array<[string | undefined, Record<string, ExportValue>]> {
+  return (item.offers || []).map(offer => [offer.marketplaceId, {
+    sku: item.sku,
+    marketplaceId: offer.marketplaceId,
+    asin: toValue(item.summaries?.find(s => s.marketplaceId === offer.marketplaceId)?.asin),
+    offerType: offer.offerType,
+    audience: toValue(offer.audience?.audienceType),
+    price: offer.price.amount,
+    priceCurrency: offer.price.currencyCode,
+    points: toValue(offer.points?.pointsNumber),
+    pointsValue: toValue(offer.points?.pointsMonetaryValue?.amount),
+    pointsValueCurrency: toValue(offer.points?.pointsMonetaryValue?.currencyCode)
+  }]);
+}
+
+/**
+ * Builds the issue rows of an item, with every issue column
+ * 
+ * @internal
+ */
+function getIssueRows(item: ListingItem): Array<[string | undefined, Record<string, ExportValue>]> {
+  return (item.issues || []).map(issue => [undefined, {
+    sku: item.sku,
+    code: issue.code,
+    severity: issue.severity,
+    message: issue.message,
+    categories: issue.categories || [],
+    attributeNames: issue.attributeNames || [],
+    enforcementActions: (issue.enforcements?.actions || []).map(a => a.action).filter((a): a is string => a !== undefined),
+    exemptionStatus: toValue(issue.enforcements?.exemption?.status),
+    exemptionExpiryDate: toValue(issue.enforcements?.exemption?.expiryDate),
+    suppressing: isSuppressingIssue(issue)
+  }]);
+}
+
+/**
+ * Row builder of each shape
+ */
+const ROW_BUILDERS: Record<ExportRowShape, (item: ListingItem) => Array<[string | undefined, Record<string, ExportValue>]>> = {
+  marketplace: getMarketplaceRows,
+  offer: getOfferRows,
+  issue: getIssueRows
+};
+
+/**
+ * Resolves the columns of an export
+ * 
+ * @param options - Row shape, column selection and attributes
+ * @returns Column names in output order
+ * 
+ * @throws {SpApiValidationError} When the shape or a column is unknown, or a column is selected twice
+ * 
+ * @remarks
+ * Without `columns`, every column of the shape is included in the order of
+ * {@link EXPORT_COLUMNS}, followed by one `attributes.<name>` column per
+ * attribute. With `columns`, exactly those columns are included in the order
+ * given, followed by any attribute columns not already selected. The order
+ * never depends on the data, so every row and every file of an export has the
+ * same columns.
+ * 
+ * @example
+ * ```typescript
+ * getExportColumns({ shape: 'offer', columns: ['sku', 'marketplaceId', 'price'], attributes: ['brand'] });
+ * // ['sku', 'marketplaceId', 'price', 'attributes.brand']
+ * ```
+ */
+export function getExportColumns(options: ListingExportOptions = {}): string[] {
+  const shape = options.shape || 'marketplace';
+  const known = EXPORT_COLUMNS[shape];
+  if (!known) {
+    throw new SpApiValidationError('request', [{
+      path: 'shape',
+      rule: 'any.only',
+      value: shape,
+      message: `shape must be one of: ${Object.keys(EXPORT_COLUMNS).join(', ')}`
+    }]);
+  }
+
+  const columns = [...(options.columns || known)];
+  for (const name of options.attributes || []) {
+    if (!columns.includes(ATTRIBUTE_COLUMN_PREFIX + name)) {
+      columns.push(ATTRIBUTE_COLUMN_PREFIX + name);
+    }
+  }
+
+  const details = columns.flatMap((column, index) => {
+    if (columns.indexOf(column) !== index) {
+      return [{ path: `columns[${index}]`, rule: 'array.unique', value: column, message: `column ${column} is selected more than once` }];
+    }
+    if (!known.includes(column) && !(column.startsWith(ATTRIBUTE_COLUMN_PREFIX) && column.length > ATTRIBUTE_COLUMN_PREFIX.length)) {
+      return [{ path: `columns[${index}]`, rule: 'any.only', value: column, message: `column ${column} is not a column of the ${shape} shape` }];
+    }
+    return [];
+  });
+  if (details.length) {
+    throw new SpApiValidationError('request', details);
+  }
+  return columns;
+}
+
+/**
+ * Creates a function flattening one listing item into rows
+ * 
+ * @internal
+ */
+function createRowFlattener(options: ListingExportOptions): { columns: string[]; flatten: (item: ListingItem) => ExportRow[] } {
+  const columns = getExportColumns(options);
+  const buildRows = ROW_BUILDERS[options.shape || 'marketplace'];
+
+  const flatten = (item: ListingItem): ExportRow[] => buildRows(item).map(([marketplaceId, values]) => {
+    const row: ExportRow = {};
+    for (const column of columns) {
+      row[column] = column.startsWith(ATTRIBUTE_COLUMN_PREFIX)
+        ? getAttributeColumnValue(item, column.slice(ATTRIBUTE_COLUMN_PREFIX.length), marketplaceId, options.languageTag)
+        : values[column] ?? null;
+    }
+    return row;
+  });
+  return { columns, flatten };
+}
+
+/**
+ * Flattens a listing item into rows
+ * 
+ * @param item - Listing item, with the included data the columns need
+ * @param options - Row shape, column selection and attributes
+ * @returns One row per marketplace, offer or issue, each with exactly the selected columns
+ * 
+ * @throws {SpApiValidationError} When the shape or a column is unknown
+ * 
+ * @remarks
+ * Missing values are `null`, never omitted, so every row has the same keys in
+ * the same order. An item without any marketplace data still yields one
+ * `marketplace` row, with a `null` marketplace; an item without offers or
+ * issues yields no `offer` or `issue` rows.
+ * 
+ * @example
+ * ```typescript
+ * const rows = flattenListingItem(item, { shape: 'offer', columns: ['sku', 'marketplaceId', 'offerType', 'price'] });
+ * // [{ sku: 'SKU-1', marketplaceId: 'ATVPDKIKX0DER', offerType: 'B2C', price: '19.99' }, ...]
+ * ```
+ */
+export function flattenListingItem(item: ListingItem, options: ListingExportOptions = {}): ExportRow[] {
+  return createRowFlattener(options).flatten(item);
+}
+
+/**
+ * Flattens listing items into rows as they are read
+ * 
+ * @param items - Listing items, e.g. from `client.iterateListingsItems`
+ * @param options - Row shape, column selection and attributes
+ * @returns Async iterable yielding the rows of each item in turn
+ * 
+ * @throws {SpApiValidationError} When the shape or a column is unknown, before any item is read
+ * 
+ * @example
+ * ```typescript
+ * for await (const row of flattenListingItems(client.iterateListingsItems(params), { shape: 'issue' })) {
+ *   await warehouse.insert('listing_issues', row);
+ * }
+ * ```
+ */
+export function flattenListingItems(
+  items: Iterable<ListingItem> | AsyncIterable<ListingItem>,
+  options: ListingExportOptions = {}
+): AsyncGenerator<ExportRow, void, undefined> {
+  // Resolved outside the generator so invalid options fail on the call itself
+  const { flatten } = createRowFlattener(options);
+  return (async function* () {
+    for await (const item of items) {
+      yield* flatten(item);
+    }
+  })();
+}
+
+/**
+ * Writes text to a stream, waiting for `drain` when its buffer is full
+ * 
+ * @param stream - Destination stream
+ * @param chunk - Text to write
+ * @returns Promise resolving once the stream can take more text
+ * @throws {Error} When the stream fails, closes or is destroyed before it drains
+ */
+export async function writeText(stream: TextOutputStream, chunk: string): Promise<void> {
+  if (stream.write(chunk)) {
+    return;
+  }
+  // A destroyed stream never emits drain, error or close again
+  if (stream.destroyed) {
+    throw new Error('The output stream was destroyed before the text was written');
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    const onDrain = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = (error?: Error) => {
+      cleanup();
+      reject(error || new Error('The output stream failed before it drained'));
+    };
+    const onClose = () => {
+      cleanup();
+      reject(new Error('The output stream closed before it drained'));
+    };
+    const cleanup = () => {
+      stream.off('drain', onDrain);
+      stream.off('error', onError);
+      stream.off('close', onClose);
+    };
+
+    stream.once('drain', onDrain);
+    stream.once('error', onError);
+    stream.once('close', onClose);
+  });
+}
+
+/**
+ * Flattens listing items and writes each item's rows as one chunk
+ * 
+ * @internal
+ */
+async function writeRows(
+  items: Iterable<ListingItem> | AsyncIterable<ListingItem>,
+  stream: TextOutputStream,
+  options: ListingExportOptions,
+  header: (columns: string[]) => string,
+  format: (row: ExportRow, columns: string[]) => string
+): Promise<ListingExportResult> {
+  const { columns, flatten } = createRowFlattener(options);
+  const result: ListingExportResult = { columns, itemCount: 0, rowCount: 0 };
+
+  const head = header(columns);
+  if (head) {
+    await writeText(stream, head);
+  }
+  for await (const item of items) {
+    const rows = flatten(item);
+    result.itemCount++;
+    result.rowCount += rows.length;
+    if (rows.length) {
+      await writeText(stream, rows.map(row => format(row, columns)).join(''));
+    }
+  }
+  return result;
+}
+
+/**
+ * Streams listing items to CSV
+ * 
+ * @param items - Listing items, e.g. from `client.iterateListingsItems`
+ * @param stream - Destination, e.g. a file write stream; it is not ended
+ * @param options - Row shape, column selection and attributes
+ * @returns Promise resolving to the columns and the number of items and rows written
+ * 
+ * @throws {SpApiValidationError} When the shape or a column is unknown; nothing is written
+ * 
+ * @remarks
+ * Items are read one at a time and written as soon as they are flattened,
+ * waiting whenever the stream is full, so memory use does not grow with the
+ * size of the export. The header row is always written. Lists are joined
+ * with `;`, `null` is an empty field and lines end with CRLF.
+ * 
+ * @example
+ * ```typescript
+ * const file = createWriteStream('listings.csv');
+ * const { rowCount } = await writeListingItemsCsv(
+ *   client.iterateListingsItems({ sellerId, marketplaceIds, includedData: ['summaries', 'offers', 'issues'] }),
+ *   file,
+ *   { shape: 'marketplace', attributes: ['brand'] }
+ * );
+ * file.end();
+ * ```
+ */
+export function writeListingItemsCsv(
+  items: Iterable<ListingItem> | AsyncIterable<ListingItem>,
+  stream: TextOutputStream,
+  options: ListingExportOptions = {}
+): Promise<ListingExportResult> {
+  return writeRows(
+    items, stream, options,
+    columns => formatCsvRow(columns) + CSV_LINE_SEPARATOR,
+    (row, columns) => formatCsvRow(columns.map(column => row[column])) + CSV_LINE_SEPARATOR
+  );
+}
+
+/**
+ * Streams listing items to NDJSON, one row object per line
+ * 
+ * @param items - Listing items, e.g. from `client.iterateListingsItems`
+ * @param stream - Destination, e.g. a file write stream; it is not ended
+ * @param options - Row shape, column selection and attributes
+ * @returns Promise resolving to the columns and the number of items and rows written
+ * 
+ * @throws {SpApiValidationError} When the shape or a column is unknown; nothing is written
+ * 
+ * @remarks
+ * Every line has the same keys in column order, with `null` for missing
+ * values and lists as JSON arrays, so the file can be loaded as a table or
+ * converted to Parquet without schema inference surprises.
+ */
+export function writeListingItemsNdjson(
+  items: Iterable<ListingItem> | AsyncIterable<ListingItem>,
+  stream: TextOutputStream,
+  options: ListingExportOptions = {}
+): Promise<ListingExportResult> {
+  return writeRows(items, stream, options, () => '', row => JSON.stringify(row) + '\n');
+}
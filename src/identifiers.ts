@@ -0,0 +1,361 @@
+/**
+ * Product identifier validation for Amazon SP-API Client
+ * 
+ * This module contains format and check-digit validation for the identifier
+ * types accepted by searchListingsItems, along with their normalization.
+ * 
+ * @group Identifiers
+ */
+
+import type { IdentifierType, IncludedDataType, ListingItem } from './types.js';
+
+/**
+ * Pattern of an ASIN: `B0` followed by 8 alphanumerics, or an ISBN-10 for books
+ */
+const ASIN_PATTERN = /^(?:B0[A-Z0-9]{8}|\d{9}[\dX])$/;
+
+/**
+ * Pattern of a fulfillment network SKU
+ */
+const FNSKU_PATTERN = /^[A-Z0-9]{10}$/;
+
+/**
+ * Removes hyphens and whitespace from a code
+ * 
+ * @internal
+ */
+function stripSeparators(value: string): string {
+  return value.replace(/[\s-]/g, '');
+}
+
+/**
+ * Computes the GS1 check digit for a GTIN body
+ * 
+ * @param body - All digits of the GTIN except the check digit
+ * @returns The check digit (0-9)
+ * @throws {Error} When the body contains non-digit characters
+ * 
+ * @example
+ * ```typescript
+ * computeGtinCheckDigit('400638133393'); // 1, as in EAN 4006381333931
+ * ```
+ */
+export function computeGtinCheckDigit(body: string): number {
+  if (!/^\d+$/.test(body)) {
+    throw new Error(`GTIN body must contain only digits: ${body}`);
+  }
+
+  // Weights alternate 3, 1, 3, ... starting from the digit next to the check digit
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    const digit = Number(body[body.length - 1 - i]);
+    sum += i % 2 === 0 ? digit * 3 : digit;
+  }
+
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Checks the length and check digit of a GTIN
+ * 
+ * @internal
+ */
+function hasValidGtinCheckDigit(value: string, lengths: number[]): boolean {
+  if (!/^\d+$/.test(value) || !lengths.includes(value.length)) {
+    return false;
+  }
+  return computeGtinCheckDigit(value.slice(0, -1)) === Number(value[value.length - 1]);
+}
+
+/**
+ * Checks whether a value is a valid ASIN
+ * 
+ * @param value - Value to check
+ * @returns True for 10-character ASINs (`B0...` or ISBN-10 for books)
+ */
+export function isValidAsin(value: string): boolean {
+  return ASIN_PATTERN.test(value.trim().toUpperCase());
+}
+
+/**
+ * Checks whether a value is a valid GTIN-8, GTIN-12, GTIN-13 or GTIN-14
+ * 
+ * @param value - Value to check; hyphens and spaces are ignored
+ * @returns True if the length and check digit are valid
+ * 
+ * @example
+ * ```typescript
+ * isValidGtin('4006381333931'); // true
+ * isValidGtin('4006381333932'); // false (check digit)
+ * ```
+ */
+export function isValidGtin(value: string): boolean {
+  return hasValidGtinCheckDigit(stripSeparators(value), [8, 12, 13, 14]);
+}
+
+/**
+ * Checks whether a value is a valid EAN-8 or EAN-13
+ * 
+ * @param value - Value to check; hyphens and spaces are ignored
+ * @returns True if the length and check digit are valid
+ */
+export function isValidEan(value: string): boolean {
+  return hasValidGtinCheckDigit(stripSeparators(value), [8, 13]);
+}
+
+/**
+ * Checks whether a value is a valid UPC-A
+ * 
+ * @param value - Value to check; hyphens and spaces are ignored
+ * @returns True for 12 digits with a valid check digit
+ */
+export function isValidUpc(value: string): boolean {
+  return hasValidGtinCheckDigit(stripSeparators(value), [12]);
+}
+
+/**
+ * Checks whether a value is a valid JAN (Japanese Article Number)
+ * 
+ * @param value - Value to check; hyphens and spaces are ignored
+ * @returns True for an EAN-13 with a 45 or 49 prefix, or an EAN-8 with a 45 or 49 prefix
+ */
+export function isValidJan(value: string): boolean {
+  const normalized = stripSeparators(value);
+  return /^4[59]/.test(normalized) && hasValidGtinCheckDigit(normalized, [8, 13]);
+}
+
+/**
+ * Checks whether a value is a valid ISBN-10
+ * 
+ * @param value - Value to check; hyphens and spaces are ignored
+ * @returns True for 9 digits followed by a digit or `X` with a valid mod-11 checksum
+ */
+export function isValidIsbn10(value: string): boolean {
+  const normalized = stripSeparators(value).toUpperCase();
+  if (!/^\d{9}[\dX]$/.test(normalized)) {
+    return false;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < 10; i++) {
+    const char = normalized[i]!;
+    sum += (char === 'X' ? 10 : Number(char)) * (10 - i);
+  }
+
+  return sum % 11 === 0;
+}
+
+/**
+ * Checks whether a value is a valid ISBN-13
+ * 
+ * @param value - Value to check; hyphens and spaces are ignored
+ * @returns True for a 978 or 979 prefixed EAN-13 with a valid check digit
+ */
+export function isValidIsbn13(value: string): boolean {
+  const normalized = stripSeparators(value);
+  return /^97[89]/.test(normalized) && hasValidGtinCheckDigit(normalized, [13]);
+}
+
+/**
+ * Checks whether a value is a valid ISBN-10 or ISBN-13
+ * 
+ * @param value - Value to check; hyphens and spaces are ignored
+ * @returns True if either checksum is valid
+ * 
+ * @example
+ * ```typescript
+ * isValidIsbn('978-0-306-40615-7'); // true
+ * isValidIsbn('0-306-40615-2'); // true
+ * ```
+ */
+export function isValidIsbn(value: string): boolean {
+  return isValidIsbn10(value) || isValidIsbn13(value);
+}
+
+/**
+ * Zero-pads a GTIN-8, GTIN-12 or GTIN-13 to GTIN-14
+ * 
+ * @param value - GTIN to pad; hyphens and spaces are removed
+ * @returns The 14-digit GTIN
+ * 
+ * @example
+ * ```typescript
+ * toGtin14('036000291452'); // '00036000291452'
+ * ```
+ */
+export function toGtin14(value: string): string {
+  return stripSeparators(value).padStart(14, '0');
+}
+
+/**
+ * Normalizes an identifier for the given identifier type
+ * 
+ * @param type - Type of the identifier
+ * @param value - Identifier to normalize
+ * @returns The normalized identifier
+ * 
+ * @remarks
+ * - ASIN and FNSKU: trimmed and upper-cased
+ * - ISBN: hyphens and spaces removed, `x` check character upper-cased
+ * - EAN, UPC and JAN: hyphens and spaces removed
+ * - GTIN: hyphens and spaces removed and zero-padded to GTIN-14
+ * - SKU and MINSAN: trimmed only
+ * 
+ * @example
+ * ```typescript
+ * normalizeIdentifier('ISBN', '978-0-306-40615-7'); // '9780306406157'
+ * normalizeIdentifier('GTIN', '036000291452'); // '00036000291452'
+ * ```
+ */
+export function normalizeIdentifier(type: IdentifierType, value: string): string {
+  switch (type) {
+    case 'ASIN':
+    case 'FNSKU':
+      return value.trim().toUpperCase();
+    case 'ISBN':
+      return stripSeparators(value).toUpperCase();
+    case 'EAN':
+    case 'UPC':
+    case 'JAN':
+      return stripSeparators(value);
+    case 'GTIN':
+      return /^\d+$/.test(stripSeparators(value)) ? toGtin14(value) : stripSeparators(value);
+    case 'SKU':
+    case 'MINSAN':
+    default:
+      return value.trim();
+  }
+}
+
+/**
+ * Explains why an identifier is invalid for its type
+ * 
+ * @param type - Type of the identifier
+ * @param value - Identifier to check
+ * @returns A short reason, or undefined if the identifier is valid or its type has no known format
+ * 
+ * @example
+ * ```typescript
+ * getIdentifierFormatError('UPC', '036000291453'); // 'invalid check digit'
+ * getIdentifierFormatError('UPC', '036000291452'); // undefined
+ * ```
+ */
+export function getIdentifierFormatError(type: IdentifierType, value: string): string | undefined {
+  const normalized = normalizeIdentifier(type, value);
+
+  switch (type) {
+    case 'ASIN':
+      return isValidAsin(normalized) ? undefined : 'expected 10 characters starting with B0, or an ISBN-10';
+    case 'FNSKU':
+      return FNSKU_PATTERN.test(normalized) ? undefined : 'expected 10 letters or digits';
+    case 'ISBN':
+      if (!/^(?:\d{9}[\dX]|\d{13})$/.test(normalized)) {
+        return 'expected 10 or 13 digits';
+      }
+      return isValidIsbn(normalized) ? undefined : 'invalid checksum';
+    case 'EAN':
+    case 'JAN':
+      if (!/^(?:\d{8}|\d{13})$/.test(normalized)) {
+        return 'expected 8 or 13 digits';
+      }
+      if (type === 'JAN' && !/^4[59]/.test(normalized)) {
+        return 'expected a 45 or 49 prefix';
+      }
+      return hasValidGtinCheckDigit(normalized, [8, 13]) ? undefined : 'invalid check digit';
+    case 'UPC':
+      if (!/^\d{12}$/.test(normalized)) {
+        return 'expected 12 digits';
+      }
+      return isValidUpc(normalized) ? undefined : 'invalid check digit';
+    case 'GTIN':
+      if (!/^(?:\d{8}|\d{12,14})$/.test(stripSeparators(value))) {
+        return 'expected 8, 12, 13 or 14 digits';
+      }
+      return isValidGtin(normalized) ? undefined : 'invalid check digit';
+    case 'SKU':
+    case 'MINSAN':
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Checks whether an identifier is valid for its type
+ * 
+ * @param type - Type of the identifier
+ * @param value - Identifier to check
+ * @returns True if the identifier is valid, or its type has no known format (SKU, MINSAN)
+ */
+export function isValidIdentifier(type: IdentifierType, value: string): boolean {
+  return getIdentifierFormatError(type, value) === undefined;
+}
+
+/**
+ * Identifier types read from the `externally_assigned_product_identifier` attribute,
+ * with the attribute `type` values they correspond to
+ */
+const EXTERNAL_IDENTIFIER_ATTRIBUTE_TYPES: Partial<Record<IdentifierType, string[]>> = {
+  EAN: ['ean'],
+  UPC: ['upc'],
+  JAN: ['jan', 'ean'],
+  ISBN: ['isbn', 'ean'],
+  GTIN: ['gtin', 'ean', 'upc', 'jan', 'isbn'],
+};
+
+/**
+ * Gets the included data a listing item needs for {@link getListingItemIdentifiers} to read an identifier type
+ * 
+ * @param type - Type of identifier
+ * @returns `summaries` for ASIN and FNSKU, `attributes` for product codes, or undefined for SKU and MINSAN
+ */
+export function getIdentifierIncludedData(type: IdentifierType): IncludedDataType | undefined {
+  if (type === 'ASIN' || type === 'FNSKU') {
+    return 'summaries';
+  }
+  return EXTERNAL_IDENTIFIER_ATTRIBUTE_TYPES[type] ? 'attributes' : undefined;
+}
+
+/**
+ * Reads the identifiers of a type carried by a listing item
+ * 
+ * @param item - Listing item returned by a search
+ * @param type - Type of identifier to read
+ * @returns Normalized identifiers of the item, possibly empty
+ * 
+ * @remarks
+ * - SKU: the item's SKU
+ * - ASIN and FNSKU: from `summaries`
+ * - EAN, UPC, JAN, ISBN and GTIN: from the `externally_assigned_product_identifier`
+ *   attribute, so `attributes` must be included
+ * - MINSAN: not carried by listing items
+ * 
+ * @example
+ * ```typescript
+ * getListingItemIdentifiers(item, 'ASIN'); // ['B08N5WRWNW']
+ * getListingItemIdentifiers(item, 'GTIN'); // ['04006381333931']
+ * ```
+ */
+export function getListingItemIdentifiers(item: ListingItem, type: IdentifierType): string[] {
+  const values: string[] = [];
+
+  if (type === 'SKU') {
+    values.push(item.sku);
+  } else if (type === 'ASIN' || type === 'FNSKU') {
+    for (const summary of item.summaries || []) {
+      const value = type === 'ASIN' ? summary.asin : summary.fnSku;
+      if (value) {
+        values.push(value);
+      }
+    }
+  } else {
+    const attributeTypes = EXTERNAL_IDENTIFIER_ATTRIBUTE_TYPES[type] || [];
+    const entries: unknown = item.attributes?.['externally_assigned_product_identifier'];
+    for (const entry of Array.isArray(entries) ? entries : []) {
+      if (attributeTypes.includes(String(entry?.type).toLowerCase()) && typeof entry?.value === 'string') {
+        values.push(entry.value);
+      }
+    }
+  }
+
+  return Array.from(new Set(values.map(value => normalizeIdentifier(type, value))));
+}
@@ -0,0 +1,329 @@
+/**
+ * Listing issue triage for Amazon SP-API Client
+ * 
+ * This module contains utilities that group the issues of many listing items,
+ * flag items suppressed by enforcement actions and summarize them in a report.
+ * 
+ * @group Issues
+ */
+
+import type {
+  DateInput,
+  IssueGroup,
+  IssueGroupBy,
+  IssueSeverity,
+  IssueSummaryReport,
+  ListingIssue,
+  ListingItem,
+  ListingSuppression,
+  SuppressedListingItem,
+  SuppressionOptions
+} from './types.js';
+import { CSV_LINE_SEPARATOR, formatCsvRow } from './csv.js';
+
+/**
+ * Enforcement actions that remove a listing, or part of it, from the storefront
+ */
+export const SUPPRESSING_ENFORCEMENT_ACTIONS: readonly string[] = [
+  'LISTING_SUPPRESSED',
+  'ATTRIBUTE_SUPPRESSED',
+  'CATALOG_ITEM_REMOVED',
+  'SEARCH_SUPPRESSED'
+];
+
+/**
+ * Order severities are reported in, most severe first
+ */
+const SEVERITY_ORDER: readonly IssueSeverity[] = ['ERROR', 'WARNING', 'INFO'];
+
+/**
+ * Columns of the CSV export of an issue summary report
+ */
+const REPORT_CSV_COLUMNS = [
+  'dimension', 'key', 'issueCount', 'itemCount', 'errors', 'warnings', 'infos',
+  'message', 'skus', 'actions', 'exempt', 'exemptionExpiresAt'
+];
+
+/**
+ * Converts a date input into milliseconds since the epoch
+ * 
+ * @internal
+ */
+function toTime(date: DateInput | undefined): number {
+  return date === undefined ? Date.now() : new Date(date).getTime();
+}
+
+/**
+ * Gets the keys an issue is counted under for a dimension
+ * 
+ * @internal
+ */
+function getGroupKeys(issue: ListingIssue, by: IssueGroupBy): string[] {
+  switch (by) {
+    case 'code':
+      return [issue.code];
+    case 'severity':
+      return [issue.severity];
+    case 'category':
+      return [...new Set(issue.categories || [])];
+    case 'attribute':
+      return [...new Set(issue.attributeNames || [])];
+  }
+}
+
+/**
+ * Groups the issues of listing items by code, severity, category or attribute
+ * 
+ * @param items - Listing items with `issues` included
+ * @param by - Dimension to group by
+ * @returns Groups ordered by issue count, largest first; severities are ordered ERROR, WARNING, INFO
+ * 
+ * @remarks
+ * An issue with several categories or attribute names is counted in each of
+ * their groups, so the issue counts of those groups can add up to more than
+ * the number of issues.
+ * 
+ * @example
+ * ```typescript
+ * const { items } = await client.searchListingsItems({
+ *   sellerId: 'A1B2C3D4E5F6G7',
+ *   marketplaceIds: ['ATVPDKIKX0DER'],
+ *   includedData: ['issues'],
+ *   withIssueSeverity: ['ERROR']
+ * });
+ * 
+ * for (const group of groupListingIssues(items, 'code').slice(0, 5)) {
+ *   console.log(group.key, group.itemCount, group.message);
+ * }
+ * ```
+ */
+export function groupListingIssues(items: readonly ListingItem[], by: IssueGroupBy): IssueGroup[] {
+  const groups = new Map<string, IssueGroup & { skuSet: Set<string> }>();
+
+  for (const item of items) {
+    for (const issue of item.issues || []) {
+      for (const key of getGroupKeys(issue, by)) {
+        let group = groups.get(key);
+        if (!group) {
+          group = { key, issueCount: 0, itemCount: 0, skus: [], severities: {}, skuSet: new Set() };
+          if (by === 'code') {
+            group.message = issue.message;
+          }
+          groups.set(key, group);
+        }
+
+        group.issueCount++;
+        group.severities[issue.severity] = (group.severities[issue.severity] || 0) + 1;
+        if (!group.skuSet.has(item.sku)) {
+          group.skuSet.add(item.sku);
+          group.skus.push(item.sku);
+        }
+      }
+    }
+  }
+
+  const result = [...groups.values()].map(({ skuSet, ...group }) => ({ ...group, itemCount: skuSet.size }));
+
+  if (by === 'severity') {
+    return result.sort((a, b) => SEVERITY_ORDER.indexOf(a.key as IssueSeverity) - SEVERITY_ORDER.indexOf(b.key as IssueSeverity));
+  }
+  return result.sort((a, b) => b.issueCount - a.issueCount || (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+}
+
+/**
+ * Checks whether an issue carries an enforcement action that suppresses the listing
+ * 
+ * @param issue - Listing issue
+ * @returns True when any enforcement action is in {@link SUPPRESSING_ENFORCEMENT_ACTIONS}
+ */
+export function isSuppressingIssue(issue: ListingIssue): boolean {
+  return (issue.enforcements?.actions || []).some(a => a.action !== undefined && SUPPRESSING_ENFORCEMENT_ACTIONS.includes(a.action));
+}
+
+/**
+ * Describes the suppression caused by an issue
+ * 
+ * @param issue - Listing issue
+ * @param options - Time exemptions are evaluated at
+ * @returns The suppressing actions and exemption, or undefined when the issue does not suppress
+ * 
+ * @remarks
+ * An `EXEMPT` exemption is in force indefinitely, and `EXEMPT_UNTIL_EXPIRY_DATE`
+ * until its expiry date. Any other status, including `NOT_EXEMPT`, is not.
+ */
+export function getListingSuppression(issue: ListingIssue, options: SuppressionOptions = {}): ListingSuppression | undefined {
+  if (!isSuppressingIssue(issue)) {
+    return undefined;
+  }
+
+  const actions = (issue.enforcements?.actions || [])
+    .map(a => a.action)
+    .filter((action): action is string => action !== undefined && SUPPRESSING_ENFORCEMENT_ACTIONS.includes(action));
+  const exemption = issue.enforcements?.exemption;
+  const expiry = exemption?.expiryDate ? Date.parse(exemption.expiryDate) : NaN;
+
+  const suppression: ListingSuppression = {
+    code: issue.code,
+    message: issue.message,
+    actions: [...new Set(actions)],
+    exempt: exemption?.status === 'EXEMPT'
+      || (exemption?.status === 'EXEMPT_UNTIL_EXPIRY_DATE' && !Number.isNaN(expiry) && expiry > toTime(options.now))
+  };
+  if (exemption?.status) {
+    suppression.exemptionStatus = exemption.status;
+  }
+  if (exemption?.expiryDate) {
+    suppression.exemptionExpiryDate = exemption.expiryDate;
+  }
+  return suppression;
+}
+
+/**
+ * Flags listing items whose issues suppress them
+ * 
+ * @param items - Listing items with `issues` included
+ * @param options - Time exemptions are evaluated at
+ * @returns Items with at least one suppressing issue, in input order
+ * 
+ * @remarks
+ * Items that are exempt today are still returned, with `exempt: true` and the
+ * earliest expiry in `exemptionExpiresAt`, so they can be fixed before the
+ * exemption runs out. An item appearing several times (e.g. once per
+ * marketplace) is reported once, with the suppressions of every occurrence.
+ * 
+ * @example
+ * ```typescript
+ * for (const item of getSuppressedListingItems(items)) {
+ *   if (item.exempt) {
+ *     console.log(`${item.sku} will be suppressed on ${item.exemptionExpiresAt}`);
+ *   } else {
+ *     console.log(`${item.sku} is suppressed: ${item.suppressions.map(s => s.code).join(', ')}`);
+ *   }
+ * }
+ * ```
+ */
+export function getSuppressedListingItems(
+  items: readonly ListingItem[],
+  options: SuppressionOptions = {}
+): SuppressedListingItem[] {
+  const suppressed = new Map<string, ListingSuppression[]>();
+
+  for (const item of items) {
+    for (const issue of item.issues || []) {
+      const suppression = getListingSuppression(issue, options);
+      if (suppression) {
+        suppressed.set(item.sku, [...(suppressed.get(item.sku) || []), suppression]);
+      }
+    }
+  }
+
+  return [...suppressed].map(([sku, suppressions]) => {
+    const exempt = suppressions.every(s => s.exempt);
+    const result: SuppressedListingItem = { sku, suppressions, exempt };
+
+    // Only dated exemptions in force expire; undated ones do not
+    const expiries = suppressions
+      .filter(s => s.exempt && s.exemptionExpiryDate)
+      .map(s => s.exemptionExpiryDate!)
+      .sort((a, b) => Date.parse(a) - Date.parse(b));
+    if (exempt && expiries[0]) {
+      result.exemptionExpiresAt = expiries[0];
+    }
+    return result;
+  });
+}
+
+/**
+ * Summarizes the issues of listing items
+ * 
+ * @param items - Listing items with `issues` included
+ * @param options - Time exemptions are evaluated at, also used as `generatedAt`
+ * @returns A report of issue counts, groups and suppressed items
+ * 
+ * @example
+ * ```typescript
+ * const items: ListingItem[] = [];
+ * for await (const item of client.iterateListingsItems({
+ *   sellerId: 'A1B2C3D4E5F6G7',
+ *   marketplaceIds: ['ATVPDKIKX0DER'],
+ *   includedData: ['summaries', 'issues']
+ * })) {
+ *   items.push(item);
+ * }
+ * 
+ * const report = createIssueSummaryReport(items);
+ * await writeFile('issues.json', JSON.stringify(report, null, 2));
+ * await writeFile('issues.csv', issueSummaryReportToCsv(report));
+ * ```
+ */
+export function createIssueSummaryReport(
+  items: readonly ListingItem[],
+  options: SuppressionOptions = {}
+): IssueSummaryReport {
+  const skus = new Set<string>();
+  const skusWithIssues = new Set<string>();
+  let issueCount = 0;
+
+  for (const item of items) {
+    skus.add(item.sku);
+    if (item.issues?.length) {
+      skusWithIssues.add(item.sku);
+      issueCount += item.issues.length;
+    }
+  }
+
+  return {
+    generatedAt: new Date(toTime(options.now)).toISOString(),
+    itemCount: skus.size,
+    itemsWithIssues: skusWithIssues.size,
+    issueCount,
+    bySeverity: groupListingIssues(items, 'severity'),
+    byCode: groupListingIssues(items, 'code'),
+    byCategory: groupListingIssues(items, 'category'),
+    byAttribute: groupListingIssues(items, 'attribute'),
+    suppressedItems: getSuppressedListingItems(items, options)
+  };
+}
+
+/**
+ * Serializes an issue summary report as CSV
+ * 
+ * @param report - Report created by {@link createIssueSummaryReport}
+ * @returns CSV text with a header row, ending with a line break
+ * 
+ * @remarks
+ * Every group and suppressed item is one row, told apart by the `dimension`
+ * column (`severity`, `code`, `category`, `attribute` or `suppressed`), so the
+ * file can be loaded as a single table and filtered. For `suppressed` rows,
+ * `key` is the SKU and `issueCount` the number of suppressing issues. Lists
+ * such as `skus` are joined with `;`.
+ */
+export function issueSummaryReportToCsv(report: IssueSummaryReport): string {
+  const rows: unknown[][] = [REPORT_CSV_COLUMNS];
+
+  const dimensions: Array<[string, IssueGroup[]]> = [
+    ['severity', report.bySeverity],
+    ['code', report.byCode],
+    ['category', report.byCategory],
+    ['attribute', report.byAttribute]
+  ];
+  for (const [dimension, groups] of dimensions) {
+    for (const group of groups) {
+      rows.push([
+        dimension, group.key, group.issueCount, group.itemCount,
+        group.severities.ERROR || 0, group.severities.WARNING || 0, group.severities.INFO || 0,
+        group.message, group.skus, undefined, undefined, undefined
+      ]);
+    }
+  }
+
+  for (const item of report.suppressedItems) {
+    rows.push([
+      'suppressed', item.sku, item.suppressions.length, 1, undefined, undefined, undefined,
+      item.suppressions.map(s => s.message), [item.sku],
+      [...new Set(item.suppressions.flatMap(s => s.actions))], item.exempt, item.exemptionExpiresAt
+    ]);
+  }
+
+  return rows.map(formatCsvRow).join(CSV_LINE_SEPARATOR) + CSV_LINE_SEPARATOR;
+}
@@ -0,0 +1,89 @@
+/**
+ * Multi-marketplace merging for Amazon SP-API Client
+ * 
+ * This module contains the per-SKU merge of listing items returned by
+ * separate single-marketplace searches.
+ * 
+ * @group Search
+ */
+
+import type {
+  ListingItem,
+  MarketplaceId,
+  MultiMarketplaceListingItem
+} from './types.js';
+
+/**
+ * Stores a value under a marketplace, or removes the marketplace when the value is missing
+ * 
+ * @internal
+ */
+function setOrDelete<T>(map: Record<string, T>, marketplaceId: MarketplaceId, value: T | undefined): void {
+  if (value === undefined) {
+    delete map[marketplaceId];
+  } else {
+    map[marketplaceId] = value;
+  }
+}
+
+/**
+ * Merges listing items from several single-marketplace searches into one entry per SKU
+ * 
+ * @param itemsByMarketplace - Items returned by each marketplace's search, in request order
+ * @returns One merged item per SKU, in order of first appearance
+ * 
+ * @remarks
+ * Data is keyed by the marketplace that returned it. The summary for a
+ * marketplace is the one carrying its `marketplaceId`, falling back to the
+ * first summary. Offers, issues and fulfillment availability are kept as
+ * returned. When a marketplace returns the same SKU twice (e.g. across pages
+ * that shifted during paging), the later item wins.
+ * 
+ * @example
+ * ```typescript
+ * const merged = mergeListingItemsByMarketplace([
+ *   ['ATVPDKIKX0DER', usItems],
+ *   ['A2EUQ1WTGCTBG2', caItems]
+ * ]);
+ * 
+ * for (const item of merged) {
+ *   console.log(item.sku, item.offers['ATVPDKIKX0DER']?.[0]?.price.amount);
+ * }
+ * ```
+ */
+export function mergeListingItemsByMarketplace(
+  itemsByMarketplace: ReadonlyArray<readonly [MarketplaceId, readonly ListingItem[]]>
+): MultiMarketplaceListingItem[] {
+  const merged = new Map<string, MultiMarketplaceListingItem>();
+
+  for (const [marketplaceId, items] of itemsByMarketplace) {
+    for (const item of items) {
+      let entry = merged.get(item.sku);
+      if (!entry) {
+        entry = {
+          sku: item.sku,
+          marketplaceIds: [],
+          items: {},
+          summaries: {},
+          offers: {},
+          issues: {},
+          fulfillmentAvailability: {}
+        };
+        merged.set(item.sku, entry);
+      }
+
+      if (!entry.marketplaceIds.includes(marketplaceId)) {
+        entry.marketplaceIds.push(marketplaceId);
+      }
+      entry.items[marketplaceId] = item;
+
+      const summary = item.summaries?.find(s => s.marketplaceId === marketplaceId) || item.summaries?.[0];
+      setOrDelete(entry.summaries, marketplaceId, summary);
+      setOrDelete(entry.offers, marketplaceId, item.offers);
+      setOrDelete(entry.issues, marketplaceId, item.issues);
+      setOrDelete(entry.fulfillmentAvailability, marketplaceId, item.fulfillmentAvailability);
+    }
+  }
+
+  return Array.from(merged.values());
+}
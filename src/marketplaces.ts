@@ -0,0 +1,154 @@
+/**
+ * Marketplace registry for Amazon SP-API Client
+ * 
+ * This module contains the built-in list of marketplaces and regional
+ * endpoints, and helpers to resolve one from the other.
+ * 
+ * @group Marketplaces
+ */
+
+import type {
+  KnownMarketplaceId,
+  MarketplaceId,
+  MarketplaceInfo,
+  RegionEndpoint,
+  SpApiRegion
+} from './types.js';
+
+/**
+ * Endpoints of the SP-API regions
+ */
+export const REGION_ENDPOINTS: Readonly<Record<SpApiRegion, RegionEndpoint>> = {
+  NA: {
+    region: 'NA',
+    baseUrl: 'https://sellingpartnerapi-na.amazon.com',
+    sandboxBaseUrl: 'https://sandbox.sellingpartnerapi-na.amazon.com',
+    awsRegion: 'us-east-1',
+  },
+  EU: {
+    region: 'EU',
+    baseUrl: 'https://sellingpartnerapi-eu.amazon.com',
+    sandboxBaseUrl: 'https://sandbox.sellingpartnerapi-eu.amazon.com',
+    awsRegion: 'eu-west-1',
+  },
+  FE: {
+    region: 'FE',
+    baseUrl: 'https://sellingpartnerapi-fe.amazon.com',
+    sandboxBaseUrl: 'https://sandbox.sellingpartnerapi-fe.amazon.com',
+    awsRegion: 'us-west-2',
+  },
+};
+
+/**
+ * Built-in marketplace registry
+ * 
+ * @example
+ * ```typescript
+ * import { MARKETPLACES } from './amazon-sp-api-client.js';
+ * 
+ * const de = MARKETPLACES.A1PA6795UKMFR9;
+ * console.log(de.countryCode, de.region, de.defaultCurrency); // DE EU EUR
+ * ```
+ */
+export const MARKETPLACES: Readonly<Record<KnownMarketplaceId, MarketplaceInfo>> = {
+  // North America
+  A2EUQ1WTGCTBG2: { id: 'A2EUQ1WTGCTBG2', name: 'Canada', countryCode: 'CA', region: 'NA', defaultCurrency: 'CAD', defaultLanguageTag: 'en_CA' },
+  ATVPDKIKX0DER: { id: 'ATVPDKIKX0DER', name: 'United States', countryCode: 'US', region: 'NA', defaultCurrency: 'USD', defaultLanguageTag: 'en_US' },
+  A1AM78C64UM0Y8: { id: 'A1AM78C64UM0Y8', name: 'Mexico', countryCode: 'MX', region: 'NA', defaultCurrency: 'MXN', defaultLanguageTag: 'es_MX' },
+  A2Q3Y263D00KWC: { id: 'A2Q3Y263D00KWC', name: 'Brazil', countryCode: 'BR', region: 'NA', defaultCurrency: 'BRL', defaultLanguageTag: 'pt_BR' },
+
+  // Europe, Middle East, Africa and India
+  A28R8C7NBKEWEA: { id: 'A28R8C7NBKEWEA', name: 'Ireland', countryCode: 'IE', region: 'EU', defaultCurrency: 'EUR', defaultLanguageTag: 'en_IE' },
+  A1RKKUPIHCS9HS: { id: 'A1RKKUPIHCS9HS', name: 'Spain', countryCode: 'ES', region: 'EU', defaultCurrency: 'EUR', defaultLanguageTag: 'es_ES' },
+  A1F83G8C2ARO7P: { id: 'A1F83G8C2ARO7P', name: 'United Kingdom', countryCode: 'GB', region: 'EU', defaultCurrency: 'GBP', defaultLanguageTag: 'en_GB' },
+  A13V1IB3VIYZZH: { id: 'A13V1IB3VIYZZH', name: 'France', countryCode: 'FR', region: 'EU', defaultCurrency: 'EUR', defaultLanguageTag: 'fr_FR' },
+  AMEN7PMS3EDWL: { id: 'AMEN7PMS3EDWL', name: 'Belgium', countryCode: 'BE', region: 'EU', defaultCurrency: 'EUR', defaultLanguageTag: 'fr_BE' },
+  A1805IZSGTT6HS: { id: 'A1805IZSGTT6HS', name: 'Netherlands', countryCode: 'NL', region: 'EU', defaultCurrency: 'EUR', defaultLanguageTag: 'nl_NL' },
+  A1PA6795UKMFR9: { id: 'A1PA6795UKMFR9', name: 'Germany', countryCode: 'DE', region: 'EU', defaultCurrency: 'EUR', defaultLanguageTag: 'de_DE' },
+  APJ6JRA9NG5V4: { id: 'APJ6JRA9NG5V4', name: 'Italy', countryCode: 'IT', region: 'EU', defaultCurrency: 'EUR', defaultLanguageTag: 'it_IT' },
+  A2NODRKZP88ZB9: { id: 'A2NODRKZP88ZB9', name: 'Sweden', countryCode: 'SE', region: 'EU', defaultCurrency: 'SEK', defaultLanguageTag: 'sv_SE' },
+  AE08WJ6YKNBMC: { id: 'AE08WJ6YKNBMC', name: 'South Africa', countryCode: 'ZA', region: 'EU', defaultCurrency: 'ZAR', defaultLanguageTag: 'en_ZA' },
+  A1C3SOZRARQ6R3: { id: 'A1C3SOZRARQ6R3', name: 'Poland', countryCode: 'PL', region: 'EU', defaultCurrency: 'PLN', defaultLanguageTag: 'pl_PL' },
+  ARBP9OOSHTCHU: { id: 'ARBP9OOSHTCHU', name: 'Egypt', countryCode: 'EG', region: 'EU', defaultCurrency: 'EGP', defaultLanguageTag: 'ar_EG' },
+  A33AVAJ2PDY3EV: { id: 'A33AVAJ2PDY3EV', name: 'Turkey', countryCode: 'TR', region: 'EU', defaultCurrency: 'TRY', defaultLanguageTag: 'tr_TR' },
+  A17E79C6D8DWNP: { id: 'A17E79C6D8DWNP', name: 'Saudi Arabia', countryCode: 'SA', region: 'EU', defaultCurrency: 'SAR', defaultLanguageTag: 'ar_SA' },
+  A2VIGQ35RCS4UG: { id: 'A2VIGQ35RCS4UG', name: 'United Arab Emirates', countryCode: 'AE', region: 'EU', defaultCurrency: 'AED', defaultLanguageTag: 'ar_AE' },
+  A21TJRUUN4KGV: { id: 'A21TJRUUN4KGV', name: 'India', countryCode: 'IN', region: 'EU', defaultCurrency: 'INR', defaultLanguageTag: 'en_IN' },
+
+  // Far East
+  A19VAU5U5O7RUS: { id: 'A19VAU5U5O7RUS', name: 'Singapore', countryCode: 'SG', region: 'FE', defaultCurrency: 'SGD', defaultLanguageTag: 'en_SG' },
+  A39IBJ37TRP1C6: { id: 'A39IBJ37TRP1C6', name: 'Australia', countryCode: 'AU', region: 'FE', defaultCurrency: 'AUD', defaultLanguageTag: 'en_AU' },
+  A1VC38T7YXB528: { id: 'A1VC38T7YXB528', name: 'Japan', countryCode: 'JP', region: 'FE', defaultCurrency: 'JPY', defaultLanguageTag: 'ja_JP' },
+};
+
+/**
+ * Checks whether a marketplace ID is in the built-in registry
+ * 
+ * @param marketplaceId - Marketplace identifier to check
+ * @returns True for known marketplace IDs
+ */
+export function isKnownMarketplaceId(marketplaceId: MarketplaceId): marketplaceId is KnownMarketplaceId {
+  return Object.prototype.hasOwnProperty.call(MARKETPLACES, marketplaceId);
+}
+
+/**
+ * Looks up a marketplace in the built-in registry
+ * 
+ * @param marketplaceId - Marketplace identifier
+ * @returns The registry entry, or undefined for unknown marketplaces
+ * 
+ * @example
+ * ```typescript
+ * getMarketplace('A1PA6795UKMFR9')?.region; // 'EU'
+ * ```
+ */
+export function getMarketplace(marketplaceId: MarketplaceId): MarketplaceInfo | undefined {
+  return isKnownMarketplaceId(marketplaceId) ? MARKETPLACES[marketplaceId] : undefined;
+}
+
+/**
+ * Lists the marketplaces served by a region
+ * 
+ * @param region - SP-API region
+ * @returns Registry entries of the region's marketplaces
+ */
+export function getMarketplacesForRegion(region: SpApiRegion): MarketplaceInfo[] {
+  return Object.values(MARKETPLACES).filter(marketplace => marketplace.region === region);
+}
+
+/**
+ * Gets the endpoint of a region
+ * 
+ * @param region - SP-API region
+ * @param sandbox - Whether to return the sandbox host
+ * @returns Base URL of the region's endpoint
+ * 
+ * @example
+ * ```typescript
+ * getRegionBaseUrl('EU'); // 'https://sellingpartnerapi-eu.amazon.com'
+ * getRegionBaseUrl('EU', true); // 'https://sandbox.sellingpartnerapi-eu.amazon.com'
+ * ```
+ */
+export function getRegionBaseUrl(region: SpApiRegion, sandbox: boolean = false): string {
+  const endpoint = REGION_ENDPOINTS[region];
+  return sandbox ? endpoint.sandboxBaseUrl : endpoint.baseUrl;
+}
+
+/**
+ * Infers the region of a base URL from the known production and sandbox hosts
+ * 
+ * @param baseUrl - Base URL of an SP-API endpoint
+ * @returns The region, or undefined for other hosts (e.g. proxies)
+ */
+export function getRegionForBaseUrl(baseUrl: string): SpApiRegion | undefined {
+  let host: string;
+  try {
+    host = new URL(baseUrl).host;
+  } catch {
+    return undefined;
+  }
+
+  return Object.values(REGION_ENDPOINTS).find(endpoint =>
+    new URL(endpoint.baseUrl).host === host || new URL(endpoint.sandboxBaseUrl).host === host
+  )?.region;
+}
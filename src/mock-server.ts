@@ -0,0 +1,982 @@
+/**
+ * Mock SP-API server for Amazon SP-API Client
+ * 
+ * This module contains an in-process HTTP server that imitates the Listings
+ * Items API for tests: it serves a seeded catalogue, injects faults, and can
+ * record real responses as fixtures and replay them.
+ * 
+ * It depends on Node.js and is not exported from the main entry point; import
+ * it from `dist/mock-server.js`.
+ * 
+ * @group Testing
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { randomUUID } from 'node:crypto';
+import { readFile, writeFile } from 'node:fs/promises';
+import type {
+  HttpMethod,
+  IdentifierType,
+  IncludedDataType,
+  ListingItem,
+  ListingsItemSubmissionResponse,
+  MockFault,
+  MockFixture,
+  MockRequestRecord,
+  MockSpApiServerOptions,
+  PatchOperation,
+  SortBy,
+  SpApiClientConfig
+} from './types.js';
+import { AmazonSpApiClient } from './client.js';
+import { createCacheKey } from './cache.js';
+import { getListingItemIdentifiers } from './identifiers.js';
+
+/**
+ * Base path of the Listings Items API
+ */
+const LISTINGS_ITEMS_PATH = '/listings/2021-08-01/items';
+
+/**
+ * Base path of the Product Type Definitions API
+ */
+const DEFINITIONS_PATH = '/definitions/2020-09-01/productTypes';
+
+/**
+ * Page size used when a search does not set one, as documented by Amazon
+ */
+const DEFAULT_PAGE_SIZE = 10;
+
+/**
+ * Largest page size accepted by a search
+ */
+const MAX_PAGE_SIZE = 20;
+
+/**
+ * Listing item fields that are projected by `includedData`
+ */
+const INCLUDED_DATA_FIELDS: readonly IncludedDataType[] = [
+  'summaries', 'attributes', 'issues', 'offers',
+  'fulfillmentAvailability', 'procurement', 'relationships', 'productTypes'
+];
+
+/**
+ * Response headers not copied from upstream responses in `record` mode
+ */
+const UNRECORDED_HEADERS = new Set(['connection', 'content-encoding', 'content-length', 'keep-alive', 'set-cookie', 'transfer-encoding']);
+
+/**
+ * Request headers not forwarded upstream in `record` mode
+ */
+const UNFORWARDED_HEADERS = new Set(['connection', 'content-length', 'host', 'keep-alive', 'accept-encoding', 'transfer-encoding']);
+
+/**
+ * A request routed to an operation
+ * 
+ * @internal
+ */
+interface Route {
+  /** Operation name, or undefined for unknown paths */
+  operation: string | undefined;
+
+  /** Seller the request is for, if the path has one */
+  sellerId?: string;
+
+  /** SKU the request is for, if the path has one */
+  sku?: string;
+}
+
+/**
+ * A response about to be sent
+ * 
+ * @internal
+ */
+interface MockResponse {
+  /** Response status */
+  status: number;
+
+  /** Response headers, in addition to the defaults */
+  headers?: Record<string, string>;
+
+  /** Response body, serialized as JSON */
+  body: unknown;
+}
+
+/**
+ * Builds an SP-API error response body
+ * 
+ * @internal
+ */
+function errorBody(code: string, message: string, details?: string): unknown {
+  return { errors: [details === undefined ? { code, message } : { code, message, details }] };
+}
+
+/**
+ * Routes a request path to its operation
+ * 
+ * @internal
+ */
+function routeRequest(method: string, path: string): Route {
+  const segments = path.split('/').map(decodeURIComponent);
+
+  if (path.startsWith(`${LISTINGS_ITEMS_PATH}/`)) {
+    const [sellerId = '', sku, ...rest] = segments.slice(4);
+    if (rest.length > 0 || !sellerId) {
+      return { operation: undefined };
+    }
+    if (sku === undefined) {
+      return method === 'GET' ? { operation: 'searchListingsItems', sellerId } : { operation: undefined };
+    }
+
+    const operations: Record<string, string> = {
+      GET: 'getListingsItem', PUT: 'putListingsItem', PATCH: 'patchListingsItem', DELETE: 'deleteListingsItem'
+    };
+    return { operation: operations[method], sellerId, sku };
+  }
+
+  if (method === 'GET' && path === DEFINITIONS_PATH) {
+    return { operation: 'searchDefinitionsProductTypes' };
+  }
+  if (method === 'GET' && path.startsWith(`${DEFINITIONS_PATH}/`)) {
+    return { operation: 'getDefinitionsProductType' };
+  }
+  return { operation: undefined };
+}
+
+/**
+ * Gets every value of a query parameter, splitting comma-delimited lists
+ * 
+ * @internal
+ */
+function getList(query: URLSearchParams, name: string): string[] {
+  return query.getAll(name).flatMap(value => value.split(',')).map(value => value.trim()).filter(Boolean);
+}
+
+/**
+ * Checks whether an entry belongs to one of the requested marketplaces
+ * 
+ * @internal
+ */
+function inMarketplaces(entry: unknown, marketplaceIds: readonly string[], key: string): boolean {
+  const marketplaceId = typeof entry === 'object' && entry !== null ? (entry as Record<string, unknown>)[key] : undefined;
+  return typeof marketplaceId !== 'string' || marketplaceIds.includes(marketplaceId);
+}
+
+/**
+ * Gets the marketplace and language an attribute entry applies to, as a comparable key
+ * 
+ * @internal
+ */
+function getEntrySelector(entry: unknown): string {
+  const fields = typeof entry === 'object' && entry !== null ? entry as Record<string, unknown> : {};
+  return JSON.stringify([fields['marketplace_id'], fields['language_tag']]);
+}
+
+/**
+ * Projects a listing item onto the requested data and marketplaces
+ * 
+ * @internal
+ */
+function projectItem(item: ListingItem, includedData: readonly string[], marketplaceIds: readonly string[]): ListingItem {
+  const projected: Record<string, unknown> = { sku: item.sku };
+
+  for (const field of includedData) {
+    if (!INCLUDED_DATA_FIELDS.includes(field as IncludedDataType)) {
+      continue;
+    }
+    const value = (item as unknown as Record<string, unknown>)[field];
+    if (value === undefined) {
+      continue;
+    }
+
+    if (field === 'attributes') {
+      const attributes: Record<string, unknown> = {};
+      for (const [name, entries] of Object.entries(value as Record<string, unknown>)) {
+        attributes[name] = Array.isArray(entries)
+          ? entries.filter(entry => inMarketplaces(entry, marketplaceIds, 'marketplace_id'))
+          : entries;
+      }
+      projected[field] = attributes;
+    } else if (Array.isArray(value)) {
+      projected[field] = value.filter(entry => inMarketplaces(entry, marketplaceIds, 'marketplaceId'));
+    } else {
+      projected[field] = value;
+    }
+  }
+
+  return structuredClone(projected) as unknown as ListingItem;
+}
+
+/**
+ * Gets the summary of an item for the first of the requested marketplaces that has one
+ * 
+ * @internal
+ */
+function getSummary(item: ListingItem, marketplaceIds: readonly string[]) {
+  return item.summaries?.find(summary => marketplaceIds.includes(summary.marketplaceId));
+}
+
+/**
+ * Checks whether a date falls inside an inclusive range
+ * 
+ * @internal
+ */
+function inDateRange(date: string | undefined, after: string | null, before: string | null): boolean {
+  if (after === null && before === null) {
+    return true;
+  }
+  const time = date === undefined ? NaN : Date.parse(date);
+  if (Number.isNaN(time)) {
+    return false;
+  }
+  return (after === null || time >= Date.parse(after)) && (before === null || time <= Date.parse(before));
+}
+
+/**
+ * Encodes a search offset as an opaque page token
+ * 
+ * @internal
+ */
+function encodePageToken(offset: number): string {
+  return Buffer.from(`offset:${offset}`).toString('base64url');
+}
+
+/**
+ * Decodes a page token created by {@link encodePageToken}
+ * 
+ * @internal
+ */
+function decodePageToken(token: string): number | undefined {
+  const match = /^offset:(\d+)$/.exec(Buffer.from(token, 'base64url').toString());
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Reads the body of a request
+ * 
+ * @internal
+ */
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Parses a body as JSON, keeping it as text when it is not JSON
+ * 
+ * @internal
+ */
+function parseBody(text: string): unknown {
+  if (!text) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Waits for a delay
+ * 
+ * @internal
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Mock of the Listings Items API for tests, served over HTTP on a local port
+ * 
+ * @group Classes
+ * @remarks
+ * In `catalog` mode the server answers the five Listings Items operations from
+ * an in-memory catalogue, honouring search filters, `sortBy`/`sortOrder`,
+ * `pageSize`/`pageToken` paging and `includedData` projection; writes update
+ * the catalogue. In `record` mode it forwards every request to a real endpoint
+ * and keeps each response in {@link fixtures}; in `replay` mode it answers from
+ * fixtures, matching requests by method, path and query in any parameter order.
+ * 
+ * Faults are injected in every mode, and every request is logged in
+ * {@link requests}. The server uses Node.js and must be stopped with
+ * {@link stop} so the test process can exit.
+ * 
+ * @example
+ * ```typescript
+ * import { MockSpApiServer } from 'amazon-sp-api-client/dist/mock-server.js';
+ * 
+ * const server = new MockSpApiServer({
+ *   catalog: { A1B2C3D4E5F6G7: items },
+ *   faults: [{ type: 'throttle', operation: 'searchListingsItems', times: 1 }]
+ * });
+ * await server.start();
+ * 
+ * const client = server.createClient({ retry: { maxAttempts: 3 } });
+ * const page = await client.searchListingsItems({
+ *   sellerId: 'A1B2C3D4E5F6G7',
+ *   marketplaceIds: ['ATVPDKIKX0DER'],
+ *   pageSize: 5
+ * });
+ * 
+ * console.log(server.requests.map(r => r.status)); // [429, 200]
+ * await server.stop();
+ * ```
+ */
+export class MockSpApiServer {
+  /**
+   * Requests received, in arrival order
+   */
+  public readonly requests: MockRequestRecord[] = [];
+
+  /**
+   * Responses recorded in `record` mode, in arrival order
+   */
+  public readonly fixtures: MockFixture[] = [];
+
+  /**
+   * How requests are answered
+   */
+  private readonly mode: NonNullable<MockSpApiServerOptions['mode']>;
+
+  /**
+   * Listing items by seller ID and SKU
+   */
+  private readonly catalog = new Map<string, Map<string, ListingItem>>();
+
+  /**
+   * Injected faults and the number of matching requests seen by each
+   */
+  private faults: Array<{ fault: MockFault; seen: number }> = [];
+
+  /**
+   * Fixtures to replay by request key, and how many of each have been used
+   */
+  private readonly replay = new Map<string, { fixtures: MockFixture[]; used: number }>();
+
+  /**
+   * Options the server was created with
+   */
+  private readonly options: MockSpApiServerOptions;
+
+  /**
+   * Underlying HTTP server, while started
+   */
+  private server: Server | undefined;
+
+  /**
+   * Base URL of the started server
+   */
+  private url: string | undefined;
+
+  /**
+   * Creates a new mock server; call {@link start} to listen
+   * 
+   * @param options - Mode, catalogue, faults and fixtures
+   * @throws {Error} When `record` mode has no `upstream`
+   */
+  constructor(options: MockSpApiServerOptions = {}) {
+    this.options = options;
+    this.mode = options.mode || 'catalog';
+    if (this.mode === 'record' && !options.upstream) {
+      throw new Error('upstream is required in record mode');
+    }
+
+    for (const [sellerId, items] of Object.entries(options.catalog || {})) {
+      this.seed(sellerId, items);
+    }
+    for (const fault of options.faults || []) {
+      this.addFault(fault);
+    }
+    for (const fixture of options.fixtures || []) {
+      const key = createCacheKey(fixture.method, fixture.path, fixture.query);
+      const entry = this.replay.get(key) || { fixtures: [], used: 0 };
+      entry.fixtures.push(fixture);
+      this.replay.set(key, entry);
+    }
+  }
+
+  /**
+   * Base URL of the server, e.g. `http://127.0.0.1:53121`
+   * 
+   * @throws {Error} When the server has not been started
+   */
+  public get baseUrl(): string {
+    if (!this.url) {
+      throw new Error('The mock server has not been started');
+    }
+    return this.url;
+  }
+
+  /**
+   * Starts listening
+   * 
+   * @returns Promise resolving to the base URL of the server
+   */
+  public async start(): Promise<string> {
+    if (this.url) {
+      return this.url;
+    }
+
+    const server = createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        if (!res.headersSent) {
+          this.send(res, { status: 500, body: errorBody('InternalFailure', String(error)) });
+        } else {
+          res.destroy();
+        }
+      });
+    });
+
+    const host = this.options.host || '127.0.0.1';
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port || 0, host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    const { port } = server.address() as AddressInfo;
+    this.server = server;
+    this.url = `http://${host.includes(':') ? `[${host}]` : host}:${port}`;
+    return this.url;
+  }
+
+  /**
+   * Stops listening and closes open connections
+   * 
+   * @returns Promise resolving once the server is closed
+   */
+  public async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    this.server = undefined;
+    this.url = undefined;
+    await new Promise<void>((resolve, reject) => {
+      server.close(error => error ? reject(error) : resolve());
+      server.closeAllConnections();
+    });
+  }
+
+  /**
+   * Creates a client for this server
+   * 
+   * @param config - Client options; `baseUrl` defaults to the server's
+   * @returns A client sending the configured access token, if any
+   * @throws {Error} When the server has not been started
+   */
+  public createClient(config: Partial<SpApiClientConfig> = {}): AmazonSpApiClient {
+    const headers = this.options.accessToken ? { 'x-amz-access-token': this.options.accessToken } : {};
+    return new AmazonSpApiClient({
+      ...config,
+      baseUrl: config.baseUrl || this.baseUrl,
+      headers: { ...headers, ...config.headers }
+    });
+  }
+
+  /**
+   * Adds or replaces listing items of a seller, by SKU
+   * 
+   * @param sellerId - Seller the items belong to
+   * @param items - Items to store; they are copied
+   */
+  public seed(sellerId: string, items: readonly ListingItem[]): void {
+    const skus = this.catalog.get(sellerId) || new Map<string, ListingItem>();
+    for (const item of items) {
+      skus.set(item.sku, structuredClone(item));
+    }
+    this.catalog.set(sellerId, skus);
+  }
+
+  /**
+   * Gets the current listing items of a seller, including changes made by requests
+   * 
+   * @param sellerId - Seller to get items for
+   * @returns Copies of the items, in insertion order
+   */
+  public getItems(sellerId: string): ListingItem[] {
+    return [...(this.catalog.get(sellerId)?.values() || [])].map(item => structuredClone(item));
+  }
+
+  /**
+   * Injects a fault into subsequent matching requests
+   * 
+   * @param fault - Fault to inject; earlier faults take precedence
+   */
+  public addFault(fault: MockFault): void {
+    this.faults.push({ fault, seen: 0 });
+  }
+
+  /**
+   * Removes every injected fault
+   */
+  public clearFaults(): void {
+    this.faults = [];
+  }
+
+  /**
+   * Handles a request
+   * 
+   * @internal
+   */
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const method = (req.method || 'GET').toUpperCase();
+    const route = routeRequest(method, url.pathname);
+    const text = await readBody(req);
+
+    const record: MockRequestRecord = {
+      operation: route.operation,
+      method,
+      path: url.pathname,
+      query: {},
+      headers: {},
+      status: 0
+    };
+    for (const name of new Set(url.searchParams.keys())) {
+      record.query[name] = url.searchParams.getAll(name);
+    }
+    for (const [name, value] of Object.entries(req.headers)) {
+      if (value !== undefined) {
+        record.headers[name] = Array.isArray(value) ? value.join(', ') : value;
+      }
+    }
+    const body = parseBody(text);
+    if (body !== undefined) {
+      record.body = body;
+    }
+    this.requests.push(record);
+
+    let response: MockResponse;
+    const token = record.headers['x-amz-access-token'];
+    if (this.options.accessToken && token !== this.options.accessToken) {
+      response = { status: 403, body: errorBody('Unauthorized', 'Access to requested resource is denied.', 'The access token you provided is revoked, malformed or invalid.') };
+    } else {
+      const fault = this.takeFault(route);
+      if (fault) {
+        record.fault = fault.type;
+        const delayMs = fault.delayMs ?? (fault.type === 'delay' ? 1000 : 0);
+        if (delayMs > 0) {
+          await sleep(delayMs);
+        }
+      }
+
+      if (fault && fault.type !== 'delay') {
+        response = this.faultResponse(fault);
+      } else if (this.mode === 'record') {
+        response = await this.forward(req, method, url, text);
+      } else if (this.mode === 'replay') {
+        response = this.replayResponse(method, url);
+      } else {
+        response = this.catalogResponse(route, method, url.searchParams, body);
+      }
+    }
+
+    record.status = response.status;
+    this.send(res, response);
+  }
+
+  /**
+   * Finds the fault to apply to a request, counting it against every matching fault
+   * 
+   * @internal
+   */
+  private takeFault(route: Route): MockFault | undefined {
+    let applied: MockFault | undefined;
+
+    for (const entry of this.faults) {
+      const { fault } = entry;
+      if ((fault.operation && fault.operation !== route.operation) || (fault.sellerId && fault.sellerId !== route.sellerId)) {
+        continue;
+      }
+
+      const index = entry.seen++;
+      const skip = fault.skip || 0;
+      if (!applied && index >= skip && index < skip + (fault.times ?? Infinity)) {
+        applied = fault;
+      }
+    }
+
+    return applied;
+  }
+
+  /**
+   * Builds the response of an injected fault
+   * 
+   * @internal
+   */
+  private faultResponse(fault: MockFault): MockResponse {
+    switch (fault.type) {
+      case 'throttle': {
+        const headers: Record<string, string> = { 'x-amzn-ratelimit-limit': String(fault.rateLimit ?? 5) };
+        if (fault.retryAfterSeconds !== undefined) {
+          headers['retry-after'] = String(fault.retryAfterSeconds);
+        }
+        return { status: 429, headers, body: errorBody('QuotaExceeded', 'You exceeded your quota for the requested resource.') };
+      }
+      case 'auth':
+        return { status: fault.status || 403, body: errorBody('Unauthorized', 'Access to requested resource is denied.') };
+      default: {
+        const status = fault.status || 500;
+        return status === 503
+          ? { status, body: errorBody('ServiceUnavailable', 'Service temporarily unavailable.') }
+          : { status, body: errorBody('InternalFailure', 'We encountered an internal error. Please try again.') };
+      }
+    }
+  }
+
+  /**
+   * Forwards a request upstream and records the response as a fixture
+   * 
+   * @internal
+   */
+  private async forward(req: IncomingMessage, method: string, url: URL, text: string): Promise<MockResponse> {
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(req.headers)) {
+      if (value !== undefined && !UNFORWARDED_HEADERS.has(name)) {
+        headers[name] = Array.isArray(value) ? value.join(', ') : value;
+      }
+    }
+
+    const upstream = await fetch(`${this.options.upstream!.replace(/\/$/, '')}${url.pathname}${url.search}`, {
+      method,
+      headers,
+      ...(text ? { body: text } : {})
+    });
+
+    const responseHeaders: Record<string, string> = {};
+    upstream.headers.forEach((value, name) => {
+      if (!UNRECORDED_HEADERS.has(name)) {
+        responseHeaders[name] = value;
+      }
+    });
+    const body = parseBody(await upstream.text());
+
+    this.fixtures.push({
+      method: method as HttpMethod,
+      path: url.pathname,
+      query: url.searchParams.toString(),
+      status: upstream.status,
+      headers: responseHeaders,
+      body
+    });
+    return { status: upstream.status, headers: responseHeaders, body };
+  }
+
+  /**
+   * Answers a request from the fixtures; repeated requests get the next fixture, then the last one again
+   * 
+   * @internal
+   */
+  private replayResponse(method: string, url: URL): MockResponse {
+    const entry = this.replay.get(createCacheKey(method, url.pathname, url.searchParams.toString()));
+    if (!entry) {
+      return { status: 404, body: errorBody('FixtureNotFound', `No fixture recorded for ${method} ${url.pathname}${url.search}`) };
+    }
+
+    const fixture = entry.fixtures[Math.min(entry.used, entry.fixtures.length - 1)]!;
+    entry.used++;
+    return { status: fixture.status, headers: fixture.headers, body: structuredClone(fixture.body) };
+  }
+
+  /**
+   * Answers a request from the catalogue
+   * 
+   * @internal
+   */
+  private catalogResponse(route: Route, method: string, query: URLSearchParams, body: unknown): MockResponse {
+    if (!route.operation || !route.sellerId || route.operation.includes('Definitions')) {
+      return { status: 404, body: errorBody('NotFound', `Resource not found: ${method}`) };
+    }
+
+    const marketplaceIds = getList(query, 'marketplaceIds');
+    if (marketplaceIds.length === 0) {
+      return { status: 400, body: errorBody('InvalidInput', 'Missing required parameter: marketplaceIds') };
+    }
+
+    if (route.operation === 'searchListingsItems') {
+      return this.search(route.sellerId, marketplaceIds, query);
+    }
+
+    const sku = route.sku!;
+    const items = this.catalog.get(route.sellerId) || new Map<string, ListingItem>();
+    this.catalog.set(route.sellerId, items);
+    const item = items.get(sku);
+
+    if (route.operation === 'getListingsItem') {
+      if (!item) {
+        return { status: 404, body: errorBody('NOT_FOUND', `SKU '${sku}' not found in marketplace ${marketplaceIds.join(',')}`) };
+      }
+      const includedData = getList(query, 'includedData');
+      return { status: 200, body: projectItem(item, includedData.length ? includedData : ['summaries'], marketplaceIds) };
+    }
+
+    const preview = query.get('mode') === 'VALIDATION_PREVIEW';
+    const submission: ListingsItemSubmissionResponse = {
+      sku,
+      status: preview ? 'VALID' : 'ACCEPTED',
+      submissionId: randomUUID().replace(/-/g, '')
+    };
+    if (getList(query, 'includedData').includes('issues')) {
+      submission.issues = [];
+    }
+
+    if (route.operation === 'deleteListingsItem') {
+      if (!item) {
+        return { status: 404, body: errorBody('NOT_FOUND', `SKU '${sku}' not found`) };
+      }
+      if (!preview) {
+        items.delete(sku);
+      }
+      return { status: 200, body: submission };
+    }
+
+    const request = (body || {}) as { productType?: string; attributes?: Record<string, unknown>; patches?: PatchOperation[] };
+    if (!request.productType) {
+      return { status: 400, body: errorBody('InvalidInput', 'Missing required field: productType') };
+    }
+    if (route.operation === 'patchListingsItem' && !item) {
+      return { status: 404, body: errorBody('NOT_FOUND', `SKU '${sku}' not found`) };
+    }
+
+    if (!preview) {
+      const updated = route.operation === 'putListingsItem'
+        ? this.putItem(sku, item, request.productType, request.attributes || {}, marketplaceIds)
+        : this.patchItem(item!, request.patches || [], marketplaceIds);
+      items.set(sku, updated);
+    }
+    return { status: 200, body: submission };
+  }
+
+  /**
+   * Searches the catalogue of a seller
+   * 
+   * @internal
+   */
+  private search(sellerId: string, marketplaceIds: string[], query: URLSearchParams): MockResponse {
+    const pageSize = Number(query.get('pageSize') ?? DEFAULT_PAGE_SIZE);
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+      return { status: 400, body: errorBody('InvalidInput', `pageSize must be between 1 and ${MAX_PAGE_SIZE}`) };
+    }
+
+    const pageToken = query.get('pageToken');
+    const offset = pageToken ? decodePageToken(pageToken) : 0;
+    if (offset === undefined) {
+      return { status: 400, body: errorBody('InvalidInput', 'Invalid pageToken') };
+    }
+
+    const identifiers = getList(query, 'identifiers');
+    const identifiersType = query.get('identifiersType') as IdentifierType | null;
+    if (identifiers.length > 0 && !identifiersType) {
+      return { status: 400, body: errorBody('InvalidInput', 'identifiersType is required when identifiers are provided') };
+    }
+
+    const variationParentSku = query.get('variationParentSku');
+    const packageHierarchySku = query.get('packageHierarchySku');
+    const withIssueSeverity = getList(query, 'withIssueSeverity');
+    const withStatus = getList(query, 'withStatus');
+    const withoutStatus = getList(query, 'withoutStatus');
+
+    const matches = [...(this.catalog.get(sellerId)?.values() || [])].filter(item => {
+      const summary = getSummary(item, marketplaceIds);
+      if (item.summaries?.length && !summary) {
+        return false;
+      }
+
+      if (identifiers.length > 0) {
+        const values = getListingItemIdentifiers(item, identifiersType!);
+        if (!identifiers.some(id => values.includes(id))) {
+          return false;
+        }
+      }
+
+      const relationships = (item.relationships || [])
+        .filter(r => marketplaceIds.includes(r.marketplaceId))
+        .flatMap(r => r.relationships);
+      if (variationParentSku && !relationships.some(r => r.type === 'VARIATION' && r.parentSkus?.includes(variationParentSku))) {
+        return false;
+      }
+      if (packageHierarchySku && !relationships.some(r => r.type === 'PACKAGE_HIERARCHY' && r.parentSkus?.includes(packageHierarchySku))) {
+        return false;
+      }
+
+      if (!inDateRange(summary?.createdDate, query.get('createdAfter'), query.get('createdBefore'))
+        || !inDateRange(summary?.lastUpdatedDate, query.get('lastUpdatedAfter'), query.get('lastUpdatedBefore'))) {
+        return false;
+      }
+
+      if (withIssueSeverity.length > 0 && !(item.issues || []).some(issue => withIssueSeverity.includes(issue.severity))) {
+        return false;
+      }
+
+      const status: string[] = summary?.status || [];
+      if (withStatus.length > 0 && !withStatus.some(s => status.includes(s))) {
+        return false;
+      }
+      return !withoutStatus.some(s => status.includes(s));
+    });
+
+    const sortBy = (query.get('sortBy') || 'lastUpdatedDate') as SortBy;
+    const direction = (query.get('sortOrder') || 'DESC') === 'ASC' ? 1 : -1;
+    const sortKey = (item: ListingItem): string =>
+      sortBy === 'sku' ? item.sku : getSummary(item, marketplaceIds)?.[sortBy] || '';
+    matches.sort((a, b) => {
+      const keyA = sortKey(a);
+      const keyB = sortKey(b);
+      if (keyA !== keyB) {
+        return (keyA < keyB ? -1 : 1) * direction;
+      }
+      return a.sku < b.sku ? -1 : a.sku > b.sku ? 1 : 0;
+    });
+
+    const includedData = getList(query, 'includedData');
+    const page = matches
+      .slice(offset, offset + pageSize)
+      .map(item => projectItem(item, includedData.length ? includedData : ['summaries'], marketplaceIds));
+
+    const pagination: Record<string, string> = {};
+    if (offset + pageSize < matches.length) {
+      pagination['nextToken'] = encodePageToken(offset + pageSize);
+    }
+    if (offset > 0) {
+      pagination['previousToken'] = encodePageToken(Math.max(0, offset - pageSize));
+    }
+
+    const response: Record<string, unknown> = { numberOfResults: matches.length, items: page };
+    if (Object.keys(pagination).length > 0) {
+      response['pagination'] = pagination;
+    }
+    return { status: 200, body: response };
+  }
+
+  /**
+   * Creates or fully replaces an item from a put request
+   * 
+   * @internal
+   */
+  private putItem(
+    sku: string,
+    existing: ListingItem | undefined,
+    productType: string,
+    attributes: Record<string, unknown>,
+    marketplaceIds: string[]
+  ): ListingItem {
+    const now = new Date().toISOString();
+    const item: ListingItem = existing ? structuredClone(existing) : { sku };
+
+    item.attributes = structuredClone(attributes);
+    item.productTypes = marketplaceIds.map(marketplaceId => ({ marketplaceId, productType }));
+    item.summaries = marketplaceIds.map(marketplaceId => {
+      const summary = existing?.summaries?.find(s => s.marketplaceId === marketplaceId);
+      return summary
+        ? { ...summary, productType, lastUpdatedDate: now }
+        : { marketplaceId, productType, status: [], createdDate: now, lastUpdatedDate: now };
+    });
+    return item;
+  }
+
+  /**
+   * Applies patches to the attributes of an item
+   * 
+   * @internal
+   */
+  private patchItem(existing: ListingItem, patches: PatchOperation[], marketplaceIds: string[]): ListingItem {
+    const item = structuredClone(existing);
+    const attributes: Record<string, unknown> = item.attributes || {};
+
+    for (const patch of patches) {
+      const name = patch.path.replace(/^\/attributes\//, '').split('/')[0];
+      if (!name) {
+        continue;
+      }
+
+      if (patch.op === 'delete') {
+        const current = attributes[name];
+        if (!patch.value || !Array.isArray(current)) {
+          delete attributes[name];
+        } else {
+          // Entries are removed by their marketplace and language, like Amazon's selectors
+          const selectors = patch.value.map(getEntrySelector);
+          attributes[name] = current.filter(entry => !selectors.includes(getEntrySelector(entry)));
+        }
+      } else {
+        attributes[name] = structuredClone(patch.value);
+      }
+    }
+
+    item.attributes = attributes;
+    const now = new Date().toISOString();
+    for (const summary of item.summaries || []) {
+      if (marketplaceIds.includes(summary.marketplaceId)) {
+        summary.lastUpdatedDate = now;
+      }
+    }
+    return item;
+  }
+
+  /**
+   * Sends a response
+   * 
+   * @internal
+   */
+  private send(res: ServerResponse, response: MockResponse): void {
+    if (res.destroyed || res.writableEnded) {
+      return;
+    }
+
+    const body = response.body === undefined ? '' : JSON.stringify(response.body);
+    res.writeHead(response.status, {
+      'x-amzn-requestid': randomUUID(),
+      ...response.headers,
+      'content-type': 'application/json',
+      'content-length': String(Buffer.byteLength(body))
+    });
+    res.end(body);
+  }
+}
+
+/**
+ * Saves fixtures recorded by a {@link MockSpApiServer} to a JSON file
+ * 
+ * @param path - File to write
+ * @param fixtures - Fixtures to save, usually `server.fixtures`
+ * @returns Promise resolving once the file is written
+ * 
+ * @remarks
+ * Request headers, including access tokens, are never part of a fixture, but
+ * response bodies are saved as received; review them before committing.
+ */
+export async function saveMockFixtures(path: string, fixtures: readonly MockFixture[]): Promise<void> {
+  await writeFile(path, `${JSON.stringify(fixtures, null, 2)}\n`, 'utf8');
+}
+
+/**
+ * Loads fixtures saved with {@link saveMockFixtures}
+ * 
+ * @param path - File to read
+ * @returns Promise resolving to the fixtures
+ * @throws {Error} When the file does not contain a JSON array
+ * 
+ * @example
+ * ```typescript
+ * const server = new MockSpApiServer({
+ *   mode: 'replay',
+ *   fixtures: await loadMockFixtures('test/fixtures/search.json')
+ * });
+ * ```
+ */
+export async function loadMockFixtures(path: string): Promise<MockFixture[]> {
+  const fixtures: unknown = JSON.parse(await readFile(path, 'utf8'));
+  if (!Array.isArray(fixtures)) {
+    throw new Error(`Fixture file does not contain an array: ${path}`);
+  }
+  return fixtures as MockFixture[];
+}
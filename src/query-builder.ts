@@ -0,0 +1,468 @@
+/**
+ * Fluent query builder for Amazon SP-API Client
+ * 
+ * This module contains a builder for SearchListingsItemsQueryParams whose types
+ * rule out invalid filter combinations at compile time.
+ * 
+ * @group Query Building
+ */
+
+import type {
+  DateInput,
+  DateWindowSplitOptions,
+  Duration,
+  IdentifierType,
+  IncludedDataType,
+  IssueSeverity,
+  ListingStatus,
+  MarketplaceId,
+  SearchFilterKind,
+  SearchListingsItemsQueryParams,
+  SortBy,
+  SortOrder
+} from './types.js';
+import { validateSearchParamsOrThrow } from './validators.js';
+import { SpApiValidationError } from './errors.js';
+
+/**
+ * Default upper bound on the number of windows created by splitLastUpdatedWindow
+ */
+const DEFAULT_MAX_WINDOWS = 1000;
+
+/**
+ * Milliseconds per duration unit
+ */
+const DURATION_UNITS_MS = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+} as const;
+
+/**
+ * Converts a duration into milliseconds
+ * 
+ * @param duration - Duration as milliseconds, a unit string or a unit object
+ * @returns Duration in milliseconds
+ * @throws {Error} When a duration string cannot be parsed
+ * 
+ * @example
+ * ```typescript
+ * durationToMs('90s'); // 90000
+ * durationToMs({ hours: 1, minutes: 30 }); // 5400000
+ * ```
+ */
+export function durationToMs(duration: Duration): number {
+  if (typeof duration === 'number') {
+    return duration;
+  }
+
+  if (typeof duration === 'string') {
+    const match = /^(\d+(?:\.\d+)?)([smhdw])$/.exec(duration);
+    if (!match) {
+      throw new Error(`Invalid duration: ${duration}. Use a number followed by s, m, h, d or w`);
+    }
+    return Number(match[1]) * DURATION_UNITS_MS[match[2] as keyof typeof DURATION_UNITS_MS];
+  }
+
+  return (duration.weeks || 0) * DURATION_UNITS_MS.w
+    + (duration.days || 0) * DURATION_UNITS_MS.d
+    + (duration.hours || 0) * DURATION_UNITS_MS.h
+    + (duration.minutes || 0) * DURATION_UNITS_MS.m
+    + (duration.seconds || 0) * DURATION_UNITS_MS.s;
+}
+
+/**
+ * Converts a Date or ISO 8601 string into an ISO 8601 string
+ * 
+ * @param date - Date to convert
+ * @returns ISO 8601 date-time string
+ * 
+ * @internal
+ */
+function toIsoString(date: DateInput): string {
+  return date instanceof Date ? date.toISOString() : date;
+}
+
+/**
+ * Splits a search's `lastUpdated` range into consecutive, non-overlapping windows
+ * 
+ * @param params - Search parameters with `lastUpdatedAfter` set; `lastUpdatedBefore` defaults to now
+ * @param options - Window size and limits
+ * @returns One copy of the parameters per window, oldest first, without `pageToken`
+ * @throws {SpApiValidationError} When `lastUpdatedAfter` is missing, the window size is not
+ *   positive, or more than `maxWindows` windows would be needed
+ * 
+ * @remarks
+ * Each window starts 1 ms after the previous window ends, so the windows cover the
+ * whole range without gaps and no listing falls into two windows. Splitting keeps
+ * each query under the API's result limits, and the windows can be searched in parallel.
+ * 
+ * @example
+ * ```typescript
+ * const windows = splitLastUpdatedWindow({
+ *   sellerId: 'A1B2C3D4E5F6G7',
+ *   marketplaceIds: ['ATVPDKIKX0DER'],
+ *   lastUpdatedAfter: '2024-01-01T00:00:00.000Z',
+ *   lastUpdatedBefore: '2024-01-31T00:00:00.000Z'
+ * }, { windowSize: '1d' });
+ * 
+ * console.log(windows.length); // 30
+ * ```
+ */
+export function splitLastUpdatedWindow(
+  params: SearchListingsItemsQueryParams,
+  options: DateWindowSplitOptions
+): SearchListingsItemsQueryParams[] {
+  const after = params.lastUpdatedAfter ? Date.parse(params.lastUpdatedAfter) : NaN;
+  if (Number.isNaN(after)) {
+    throw new SpApiValidationError('request', [{
+      path: 'lastUpdatedAfter',
+      rule: 'any.required',
+      value: params.lastUpdatedAfter,
+      message: 'lastUpdatedAfter must be a valid ISO 8601 date-time to split the range'
+    }]);
+  }
+
+  const before = params.lastUpdatedBefore
+    ? Date.parse(params.lastUpdatedBefore)
+    : (options.now || new Date()).getTime();
+  if (Number.isNaN(before) || before < after) {
+    throw new SpApiValidationError('request', [{
+      path: 'lastUpdatedBefore',
+      rule: 'date.rangeOrder',
+      value: params.lastUpdatedBefore,
+      message: 'lastUpdatedAfter must not be later than lastUpdatedBefore'
+    }]);
+  }
+
+  const windowMs = durationToMs(options.windowSize);
+  if (!(windowMs > 0)) {
+    throw new SpApiValidationError('request', [{
+      path: 'windowSize',
+      rule: 'number.positive',
+      value: options.windowSize,
+      message: 'windowSize must be a positive duration'
+    }]);
+  }
+
+  const maxWindows = options.maxWindows ?? DEFAULT_MAX_WINDOWS;
+  const windowCount = Math.max(1, Math.ceil((before - after) / windowMs));
+  if (windowCount > maxWindows) {
+    throw new SpApiValidationError('request', [{
+      path: 'windowSize',
+      rule: 'window.tooMany',
+      value: options.windowSize,
+      message: `Splitting the range needs ${windowCount} windows, more than maxWindows (${maxWindows})`
+    }]);
+  }
+
+  // A page token only belongs to the query it came from
+  const base: SearchListingsItemsQueryParams = { ...params };
+  delete base.pageToken;
+
+  const windows: SearchListingsItemsQueryParams[] = [];
+  for (let i = 0; i < windowCount; i++) {
+    const start = i === 0 ? after : after + i * windowMs + 1;
+    const end = i === windowCount - 1 ? before : after + (i + 1) * windowMs;
+    windows.push({
+      ...base,
+      lastUpdatedAfter: new Date(start).toISOString(),
+      lastUpdatedBefore: new Date(end).toISOString(),
+    });
+  }
+
+  return windows;
+}
+
+/**
+ * Fluent, immutable builder for SearchListingsItemsQueryParams
+ * 
+ * @group Classes
+ * @remarks
+ * Each method returns a new builder, so partially built queries can be reused.
+ * The type parameter tracks which mutually exclusive filter is in use: once
+ * `identifiers`, `variationParentSku` or `packageHierarchySku` has been called,
+ * calling another of them is a compile-time error. Identifiers can only be added
+ * together with their `IdentifierType`.
+ * 
+ * @typeParam F - The exclusive filter used by the query
+ * 
+ * @example
+ * ```typescript
+ * import { ListingsSearchQuery } from './amazon-sp-api-client.js';
+ * 
+ * const params = ListingsSearchQuery.forSeller('A1B2C3D4E5F6G7', 'ATVPDKIKX0DER')
+ *   .identifiers('ASIN', ['B08N5WRWNW', 'B08N5WRXYZ'])
+ *   .include('summaries', 'offers')
+ *   .updatedSince('24h')
+ *   .sortBy('lastUpdatedDate', 'DESC')
+ *   .build();
+ * 
+ * const results = await client.searchListingsItems(params);
+ * 
+ * // Does not compile: identifiers and variationParentSku are mutually exclusive
+ * // ListingsSearchQuery.forSeller('A1B2C3D4E5F6G7', 'ATVPDKIKX0DER')
+ * //   .identifiers('ASIN', ['B08N5WRWNW'])
+ * //   .variationParentSku('PARENT-SKU');
+ * ```
+ */
+export class ListingsSearchQuery<F extends SearchFilterKind = 'none'> {
+  /**
+   * Phantom field that makes builders with different filters incompatible
+   */
+  declare private readonly filterKind: F;
+
+  /**
+   * Parameters collected so far
+   */
+  private readonly params: SearchListingsItemsQueryParams;
+
+  /**
+   * Creates a builder from existing parameters
+   * 
+   * @internal
+   */
+  private constructor(params: SearchListingsItemsQueryParams) {
+    this.params = params;
+  }
+
+  /**
+   * Starts a query for a seller in a marketplace
+   * 
+   * @param sellerId - Selling partner identifier
+   * @param marketplaceId - Marketplace to search in
+   * @returns A new builder without any filters
+   */
+  public static forSeller(sellerId: string, marketplaceId: MarketplaceId): ListingsSearchQuery<'none'> {
+    return new ListingsSearchQuery<'none'>({ sellerId, marketplaceIds: [marketplaceId] });
+  }
+
+  /**
+   * Returns a new builder with the given parameters merged in
+   * 
+   * @internal
+   */
+  private with<G extends SearchFilterKind = F>(changes: Partial<SearchListingsItemsQueryParams>): ListingsSearchQuery<G> {
+    return new ListingsSearchQuery<G>({ ...this.params, ...changes });
+  }
+
+  /**
+   * Restricts the search to the given identifiers
+   * 
+   * @param type - Type of the identifiers
+   * @param identifiers - Identifiers to search for (max 20)
+   * @returns A new builder using the identifiers filter
+   */
+  public identifiers(
+    this: ListingsSearchQuery<'none'>,
+    type: IdentifierType,
+    identifiers: string[]
+  ): ListingsSearchQuery<'identifiers'> {
+    return this.with<'identifiers'>({ identifiersType: type, identifiers: [...identifiers] });
+  }
+
+  /**
+   * Restricts the search to variation children of a parent SKU
+   * 
+   * @param sku - Parent SKU
+   * @returns A new builder using the variation parent filter
+   */
+  public variationParentSku(this: ListingsSearchQuery<'none'>, sku: string): ListingsSearchQuery<'variationParentSku'> {
+    return this.with<'variationParentSku'>({ variationParentSku: sku });
+  }
+
+  /**
+   * Restricts the search to items that contain or are contained by a SKU
+   * 
+   * @param sku - Package hierarchy SKU
+   * @returns A new builder using the package hierarchy filter
+   */
+  public packageHierarchySku(this: ListingsSearchQuery<'none'>, sku: string): ListingsSearchQuery<'packageHierarchySku'> {
+    return this.with<'packageHierarchySku'>({ packageHierarchySku: sku });
+  }
+
+  /**
+   * Adds data sections to include in the response
+   * 
+   * @param data - Data sections to include
+   * @returns A new builder
+   */
+  public include(...data: IncludedDataType[]): ListingsSearchQuery<F> {
+    const includedData = [...(this.params.includedData || [])];
+    data.forEach(d => {
+      if (!includedData.includes(d)) {
+        includedData.push(d);
+      }
+    });
+    return this.with({ includedData });
+  }
+
+  /**
+   * Sets the locale used to localize issues
+   * 
+   * @param locale - Locale such as `en_US`
+   * @returns A new builder
+   */
+  public issueLocale(locale: string): ListingsSearchQuery<F> {
+    return this.with({ issueLocale: locale });
+  }
+
+  /**
+   * Only includes items created at or after the given time
+   * 
+   * @param date - Earliest creation time
+   * @returns A new builder
+   */
+  public createdAfter(date: DateInput): ListingsSearchQuery<F> {
+    return this.with({ createdAfter: toIsoString(date) });
+  }
+
+  /**
+   * Only includes items created at or before the given time
+   * 
+   * @param date - Latest creation time
+   * @returns A new builder
+   */
+  public createdBefore(date: DateInput): ListingsSearchQuery<F> {
+    return this.with({ createdBefore: toIsoString(date) });
+  }
+
+  /**
+   * Only includes items created within the given range
+   * 
+   * @param after - Earliest creation time
+   * @param before - Latest creation time
+   * @returns A new builder
+   */
+  public createdBetween(after: DateInput, before: DateInput): ListingsSearchQuery<F> {
+    return this.with({ createdAfter: toIsoString(after), createdBefore: toIsoString(before) });
+  }
+
+  /**
+   * Only includes items created within the given duration before now
+   * 
+   * @param duration - How far back to look
+   * @param now - Reference time (defaults to the current time)
+   * @returns A new builder
+   */
+  public createdSince(duration: Duration, now: Date = new Date()): ListingsSearchQuery<F> {
+    return this.createdAfter(new Date(now.getTime() - durationToMs(duration)));
+  }
+
+  /**
+   * Only includes items last updated at or after the given time
+   * 
+   * @param date - Earliest update time
+   * @returns A new builder
+   */
+  public lastUpdatedAfter(date: DateInput): ListingsSearchQuery<F> {
+    return this.with({ lastUpdatedAfter: toIsoString(date) });
+  }
+
+  /**
+   * Only includes items last updated at or before the given time
+   * 
+   * @param date - Latest update time
+   * @returns A new builder
+   */
+  public lastUpdatedBefore(date: DateInput): ListingsSearchQuery<F> {
+    return this.with({ lastUpdatedBefore: toIsoString(date) });
+  }
+
+  /**
+   * Only includes items last updated within the given range
+   * 
+   * @param after - Earliest update time
+   * @param before - Latest update time
+   * @returns A new builder
+   */
+  public lastUpdatedBetween(after: DateInput, before: DateInput): ListingsSearchQuery<F> {
+    return this.with({ lastUpdatedAfter: toIsoString(after), lastUpdatedBefore: toIsoString(before) });
+  }
+
+  /**
+   * Only includes items updated within the given duration before now
+   * 
+   * @param duration - How far back to look, e.g. `'24h'` or `{ days: 7 }`
+   * @param now - Reference time (defaults to the current time)
+   * @returns A new builder
+   */
+  public updatedSince(duration: Duration, now: Date = new Date()): ListingsSearchQuery<F> {
+    return this.lastUpdatedAfter(new Date(now.getTime() - durationToMs(duration)));
+  }
+
+  /**
+   * Only includes items with issues of the given severities
+   * 
+   * @param severities - Issue severities to match
+   * @returns A new builder
+   */
+  public withIssueSeverity(...severities: IssueSeverity[]): ListingsSearchQuery<F> {
+    return this.with({ withIssueSeverity: severities });
+  }
+
+  /**
+   * Only includes items with the given statuses
+   * 
+   * @param statuses - Statuses to match
+   * @returns A new builder
+   */
+  public withStatus(...statuses: ListingStatus[]): ListingsSearchQuery<F> {
+    return this.with({ withStatus: statuses });
+  }
+
+  /**
+   * Excludes items with the given statuses
+   * 
+   * @param statuses - Statuses to exclude
+   * @returns A new builder
+   */
+  public withoutStatus(...statuses: ListingStatus[]): ListingsSearchQuery<F> {
+    return this.with({ withoutStatus: statuses });
+  }
+
+  /**
+   * Sets the sort field and, optionally, the sort order
+   * 
+   * @param field - Field to sort by
+   * @param order - Sort order
+   * @returns A new builder
+   */
+  public sortBy(field: SortBy, order?: SortOrder): ListingsSearchQuery<F> {
+    return this.with(order ? { sortBy: field, sortOrder: order } : { sortBy: field });
+  }
+
+  /**
+   * Sets the page size
+   * 
+   * @param size - Number of items per page (1-20)
+   * @returns A new builder
+   */
+  public pageSize(size: number): ListingsSearchQuery<F> {
+    return this.with({ pageSize: size });
+  }
+
+  /**
+   * Sets the page token to start from
+   * 
+   * @param token - Token from a previous response's `pagination.nextToken`
+   * @returns A new builder
+   */
+  public pageToken(token: string): ListingsSearchQuery<F> {
+    return this.with({ pageToken: token });
+  }
+
+  /**
+   * Validates and returns the query parameters
+   * 
+   * @returns Parameters ready to pass to `searchListingsItems`
+   * @throws {SpApiValidationError} When the parameters fail validation (e.g. a page size out of range)
+   */
+  public build(): SearchListingsItemsQueryParams {
+    const params: SearchListingsItemsQueryParams = { ...this.params };
+    validateSearchParamsOrThrow(params);
+    return params;
+  }
+}
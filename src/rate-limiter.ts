@@ -0,0 +1,274 @@
+/**
+ * Client-side rate limiting for Amazon SP-API Client
+ * 
+ * This module contains the token bucket rate limiter used to queue requests
+ * instead of sending them into a 429 response.
+ * 
+ * @group Rate Limiting
+ */
+
+import type { RateLimit, RateLimitKey, RateLimiter, TokenBucketRateLimiterOptions } from './types.js';
+
+/**
+ * Published SP-API usage plans for the operations supported by the client
+ */
+export const DEFAULT_OPERATION_RATE_LIMITS: Readonly<Record<string, RateLimit>> = {
+  searchListingsItems: { rate: 5, burst: 5 },
+  getListingsItem: { rate: 5, burst: 10 },
+  putListingsItem: { rate: 5, burst: 10 },
+  patchListingsItem: { rate: 5, burst: 10 },
+  deleteListingsItem: { rate: 5, burst: 10 },
+  searchDefinitionsProductTypes: { rate: 5, burst: 10 },
+  getDefinitionsProductType: { rate: 5, burst: 10 },
+};
+
+/**
+ * Limit used for operations without a published usage plan
+ */
+const FALLBACK_RATE_LIMIT: RateLimit = { rate: 1, burst: 1 };
+
+/**
+ * Minimum time between sweeps for idle buckets, in milliseconds
+ */
+const IDLE_SWEEP_INTERVAL_MS = 60000;
+
+/**
+ * A request waiting for a token
+ */
+interface Waiter {
+  resolve: () => void;
+  reject: (reason: unknown) => void;
+  signal?: AbortSignal | undefined;
+  onAbort?: (() => void) | undefined;
+}
+
+/**
+ * State of a single token bucket
+ */
+interface Bucket {
+  rate: number;
+  burst: number;
+  tokens: number;
+  lastRefill: number;
+  queue: Waiter[];
+  timer?: ReturnType<typeof setTimeout> | undefined;
+}
+
+/**
+ * Token bucket rate limiter keyed by operation and selling partner
+ * 
+ * @group Classes
+ * @remarks
+ * Each operation/seller pair gets its own bucket holding up to `burst` tokens,
+ * refilled at `rate` tokens per second. Requests take one token each and wait
+ * in FIFO order when the bucket is empty. When `adaptToHeaders` is enabled the
+ * refill rate follows the `x-amzn-ratelimit-limit` header returned by the API.
+ * 
+ * Buckets with no waiting requests are discarded once they have refilled
+ * completely, so the number of buckets does not grow with every seller seen.
+ * 
+ * A single instance can be shared by several clients (clients created with
+ * `withConfig` share their parent's limiter) so that all of them draw from the
+ * same buckets.
+ * 
+ * @example
+ * ```typescript
+ * import { AmazonSpApiClient, TokenBucketRateLimiter } from './amazon-sp-api-client.js';
+ * 
+ * const rateLimiter = new TokenBucketRateLimiter({
+ *   limits: { searchListingsItems: { rate: 2, burst: 4 } }
+ * });
+ * 
+ * const client = new AmazonSpApiClient({
+ *   baseUrl: 'https://sellingpartnerapi-na.amazon.com',
+ *   rateLimiter
+ * });
+ * ```
+ */
+export class TokenBucketRateLimiter implements RateLimiter {
+  /**
+   * Configured limits per operation
+   */
+  private readonly limits: Record<string, RateLimit>;
+
+  /**
+   * Limit for operations without a configured entry
+   */
+  private readonly defaultLimit: RateLimit;
+
+  /**
+   * Whether observed rate limit headers adjust the refill rate
+   */
+  private readonly adaptToHeaders: boolean;
+
+  /**
+   * Buckets by operation and seller
+   */
+  private readonly buckets = new Map<string, Bucket>();
+
+  /**
+   * Time of the last sweep for idle buckets
+   */
+  private lastSweep = Date.now();
+
+  /**
+   * Creates a new token bucket rate limiter
+   * 
+   * @param options - Optional limits and behaviour overrides
+   */
+  constructor(options: TokenBucketRateLimiterOptions = {}) {
+    this.limits = { ...DEFAULT_OPERATION_RATE_LIMITS, ...options.limits };
+    this.defaultLimit = options.defaultLimit || FALLBACK_RATE_LIMIT;
+    this.adaptToHeaders = options.adaptToHeaders ?? true;
+  }
+
+  /**
+   * Waits until a token is available for the given operation and seller
+   * 
+   * @param key - Operation and seller the request is made for
+   * @param signal - Optional signal that removes the request from the queue
+   * @returns Promise resolving when the request may be sent
+   */
+  public acquire(key: RateLimitKey, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    const bucket = this.getBucket(key);
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { resolve, reject, signal };
+
+      if (signal) {
+        waiter.onAbort = () => {
+          const index = bucket.queue.indexOf(waiter);
+          if (index !== -1) {
+            bucket.queue.splice(index, 1);
+          }
+          reject(signal.reason);
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+
+      bucket.queue.push(waiter);
+      this.drain(bucket);
+    });
+  }
+
+  /**
+   * Adjusts the refill rate from an observed `x-amzn-ratelimit-limit` header
+   * 
+   * @param key - Operation and seller the response belongs to
+   * @param rate - Requests per second reported by the API
+   */
+  public observeRateLimit(key: RateLimitKey, rate: number): void {
+    if (!this.adaptToHeaders || !Number.isFinite(rate) || rate <= 0) {
+      return;
+    }
+
+    const bucket = this.getBucket(key);
+    this.refill(bucket);
+    bucket.rate = rate;
+  }
+
+  /**
+   * Gets the limit currently applied to an operation and seller
+   * 
+   * @param key - Operation and seller to look up
+   * @returns The bucket's current rate and burst
+   */
+  public getLimit(key: RateLimitKey): RateLimit {
+    const bucket = this.getBucket(key);
+    return { rate: bucket.rate, burst: bucket.burst };
+  }
+
+  /**
+   * Gets or creates the bucket for an operation and seller
+   * 
+   * @internal
+   */
+  private getBucket(key: RateLimitKey): Bucket {
+    const id = `${key.operation}:${key.sellerId}`;
+    let bucket = this.buckets.get(id);
+
+    if (!bucket) {
+      this.sweepIdleBuckets();
+
+      const limit = this.limits[key.operation] || this.defaultLimit;
+      bucket = {
+        rate: limit.rate,
+        burst: limit.burst,
+        tokens: limit.burst,
+        lastRefill: Date.now(),
+        queue: [],
+      };
+      this.buckets.set(id, bucket);
+    }
+
+    return bucket;
+  }
+
+  /**
+   * Removes buckets with no waiting requests that have refilled completely
+   * 
+   * @remarks
+   * Such a bucket behaves exactly like a new one, except for a rate learned
+   * from response headers, which the next response restores. Sweeps run at
+   * most once a minute, when a bucket is created.
+   * 
+   * @internal
+   */
+  private sweepIdleBuckets(): void {
+    const now = Date.now();
+    if (now - this.lastSweep < IDLE_SWEEP_INTERVAL_MS) {
+      return;
+    }
+    this.lastSweep = now;
+
+    for (const [id, bucket] of this.buckets) {
+      if (bucket.queue.length === 0 && !bucket.timer
+        && bucket.tokens + ((now - bucket.lastRefill) / 1000) * bucket.rate >= bucket.burst) {
+        this.buckets.delete(id);
+      }
+    }
+  }
+
+  /**
+   * Adds the tokens accumulated since the last refill
+   * 
+   * @internal
+   */
+  private refill(bucket: Bucket): void {
+    const now = Date.now();
+    bucket.tokens = Math.min(bucket.burst, bucket.tokens + ((now - bucket.lastRefill) / 1000) * bucket.rate);
+    bucket.lastRefill = now;
+  }
+
+  /**
+   * Releases queued requests while tokens are available and schedules the next release
+   * 
+   * @internal
+   */
+  private drain(bucket: Bucket): void {
+    if (bucket.timer) {
+      clearTimeout(bucket.timer);
+      bucket.timer = undefined;
+    }
+
+    this.refill(bucket);
+
+    while (bucket.queue.length > 0 && bucket.tokens >= 1) {
+      const waiter = bucket.queue.shift()!;
+      bucket.tokens -= 1;
+      if (waiter.signal && waiter.onAbort) {
+        waiter.signal.removeEventListener('abort', waiter.onAbort);
+      }
+      waiter.resolve();
+    }
+
+    if (bucket.queue.length > 0) {
+      const waitMs = Math.ceil(((1 - bucket.tokens) / bucket.rate) * 1000);
+      bucket.timer = setTimeout(() => this.drain(bucket), waitMs);
+    }
+  }
+}
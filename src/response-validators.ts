@@ -0,0 +1,362 @@
+/**
+ * Response validation for Amazon SP-API Client
+ * 
+ * This module contains Joi schemas for the response bodies returned by the
+ * Listings Items and Product Type Definitions APIs, and runtime type guards built from them.
+ * 
+ * @group Validation
+ */
+
+import Joi from 'joi';
+import type {
+  FulfillmentAvailability,
+  ItemSummary,
+  ListingIssue,
+  ListingItem,
+  ListingsItemSubmissionResponse,
+  MarketplaceRelationships,
+  Money,
+  Offer,
+  ProductType,
+  ProductTypeDefinition,
+  ProductTypeList,
+  SearchListingsItemsResponse
+} from './types.js';
+import { type SpApiValidationError, createSpApiValidationError } from './errors.js';
+
+/**
+ * Joi validation schema for Money
+ */
+export const moneySchema = Joi.object({
+  currencyCode: Joi.string().required(),
+  amount: Joi.string().required()
+}).unknown(true);
+
+/**
+ * Joi validation schema for Points
+ */
+export const pointsSchema = Joi.object({
+  pointsNumber: Joi.number().optional(),
+  pointsMonetaryValue: moneySchema.optional()
+}).unknown(true);
+
+/**
+ * Joi validation schema for ItemSummary
+ */
+export const itemSummarySchema = Joi.object({
+  marketplaceId: Joi.string().required(),
+  asin: Joi.string().optional(),
+  productType: Joi.string().required(),
+  conditionType: Joi.string().optional(),
+  status: Joi.array().items(Joi.string().valid('BUYABLE', 'DISCOVERABLE')).required(),
+  fnSku: Joi.string().optional(),
+  itemName: Joi.string().optional(),
+  createdDate: Joi.string().isoDate().required(),
+  lastUpdatedDate: Joi.string().isoDate().required(),
+  mainImage: Joi.object({
+    link: Joi.string().optional(),
+    height: Joi.number().optional(),
+    width: Joi.number().optional()
+  }).unknown(true).optional()
+}).unknown(true);
+
+/**
+ * Joi validation schema for ListingIssue
+ */
+export const listingIssueSchema = Joi.object({
+  code: Joi.string().required(),
+  message: Joi.string().required(),
+  severity: Joi.string().valid('ERROR', 'WARNING', 'INFO').required(),
+  attributeNames: Joi.array().items(Joi.string()).optional(),
+  categories: Joi.array().items(Joi.string()).required(),
+  enforcements: Joi.object({
+    actions: Joi.array().items(Joi.object({ action: Joi.string().optional() }).unknown(true)).optional(),
+    exemption: Joi.object({
+      status: Joi.string().optional(),
+      expiryDate: Joi.string().isoDate().optional()
+    }).unknown(true).optional()
+  }).unknown(true).optional()
+}).unknown(true);
+
+/**
+ * Joi validation schema for Offer
+ */
+export const offerSchema = Joi.object({
+  marketplaceId: Joi.string().required(),
+  offerType: Joi.string().valid('B2C', 'B2B').required(),
+  price: moneySchema.required(),
+  points: pointsSchema.optional(),
+  audience: Joi.object({ audienceType: Joi.string().optional() }).unknown(true).optional()
+}).unknown(true);
+
+/**
+ * Joi validation schema for FulfillmentAvailability
+ */
+export const fulfillmentAvailabilitySchema = Joi.object({
+  fulfillmentChannelCode: Joi.string().required(),
+  quantity: Joi.number().integer().min(0).optional()
+}).unknown(true);
+
+/**
+ * Joi validation schema for MarketplaceRelationships
+ */
+export const marketplaceRelationshipsSchema = Joi.object({
+  marketplaceId: Joi.string().required(),
+  relationships: Joi.array().items(Joi.object({
+    childSkus: Joi.array().items(Joi.string()).optional(),
+    parentSkus: Joi.array().items(Joi.string()).optional(),
+    variationTheme: Joi.object().unknown(true).optional(),
+    type: Joi.string().valid('VARIATION', 'PACKAGE_HIERARCHY').required()
+  }).unknown(true)).required()
+}).unknown(true);
+
+/**
+ * Joi validation schema for ProductType
+ */
+export const productTypeEntrySchema = Joi.object({
+  marketplaceId: Joi.string().required(),
+  productType: Joi.string().required()
+}).unknown(true);
+
+/**
+ * Joi validation schema for ListingItem
+ */
+export const listingItemSchema = Joi.object({
+  sku: Joi.string().required(),
+  summaries: Joi.array().items(itemSummarySchema).optional(),
+  attributes: Joi.object().unknown(true).optional(),
+  issues: Joi.array().items(listingIssueSchema).optional(),
+  offers: Joi.array().items(offerSchema).optional(),
+  fulfillmentAvailability: Joi.array().items(fulfillmentAvailabilitySchema).optional(),
+  procurement: Joi.any().optional(),
+  relationships: Joi.array().items(marketplaceRelationshipsSchema).optional(),
+  productTypes: Joi.array().items(productTypeEntrySchema).optional()
+}).unknown(true);
+
+/**
+ * Joi validation schema for SearchListingsItemsResponse
+ */
+export const searchListingsItemsResponseSchema = Joi.object({
+  numberOfResults: Joi.number().integer().min(0).required(),
+  pagination: Joi.object({
+    nextToken: Joi.string().optional(),
+    previousToken: Joi.string().optional()
+  }).unknown(true).optional(),
+  items: Joi.array().items(listingItemSchema).required()
+}).unknown(true);
+
+/**
+ * Joi validation schema for ListingsItemSubmissionResponse
+ */
+export const listingsItemSubmissionResponseSchema = Joi.object({
+  sku: Joi.string().required(),
+  status: Joi.string().valid('ACCEPTED', 'INVALID', 'VALID').required(),
+  submissionId: Joi.string().required(),
+  issues: Joi.array().items(listingIssueSchema).optional(),
+  identifiers: Joi.array().items(Joi.object({
+    marketplaceId: Joi.string().required(),
+    asin: Joi.string().optional()
+  }).unknown(true)).optional()
+}).unknown(true);
+
+/**
+ * Joi validation schema for ProductTypeList
+ */
+export const productTypeListSchema = Joi.object({
+  productTypes: Joi.array().items(Joi.object({
+    name: Joi.string().required(),
+    displayName: Joi.string().required(),
+    marketplaceIds: Joi.array().items(Joi.string()).required()
+  }).unknown(true)).required(),
+  productTypeVersion: Joi.string().required()
+}).unknown(true);
+
+/**
+ * Joi validation schema for the schema links of a ProductTypeDefinition
+ */
+const schemaLinkSchema = Joi.object({
+  link: Joi.object({
+    resource: Joi.string().required(),
+    verb: Joi.string().valid('GET').required()
+  }).unknown(true).required(),
+  checksum: Joi.string().required()
+}).unknown(true);
+
+/**
+ * Joi validation schema for ProductTypeDefinition
+ */
+export const productTypeDefinitionSchema = Joi.object({
+  metaSchema: schemaLinkSchema.optional(),
+  schema: schemaLinkSchema.required(),
+  requirements: Joi.string().valid('LISTING', 'LISTING_PRODUCT_ONLY', 'LISTING_OFFER_ONLY').required(),
+  requirementsEnforced: Joi.string().valid('ENFORCED', 'NOT_ENFORCED').required(),
+  propertyGroups: Joi.object().pattern(Joi.string(), Joi.object({
+    title: Joi.string().optional(),
+    description: Joi.string().optional(),
+    propertyNames: Joi.array().items(Joi.string()).optional()
+  }).unknown(true)).required(),
+  locale: Joi.string().required(),
+  marketplaceIds: Joi.array().items(Joi.string()).required(),
+  productType: Joi.string().required(),
+  displayName: Joi.string().optional(),
+  productTypeVersion: Joi.object({
+    version: Joi.string().required(),
+    latest: Joi.boolean().required(),
+    releaseCandidate: Joi.boolean().optional()
+  }).unknown(true).required()
+}).unknown(true);
+
+/**
+ * Response schema of each operation
+ */
+const OPERATION_RESPONSE_SCHEMAS: Readonly<Record<string, Joi.Schema>> = {
+  searchListingsItems: searchListingsItemsResponseSchema,
+  getListingsItem: listingItemSchema,
+  putListingsItem: listingsItemSubmissionResponseSchema,
+  patchListingsItem: listingsItemSubmissionResponseSchema,
+  deleteListingsItem: listingsItemSubmissionResponseSchema,
+  searchDefinitionsProductTypes: productTypeListSchema,
+  getDefinitionsProductType: productTypeDefinitionSchema,
+};
+
+/**
+ * Checks a value against a schema without converting it
+ * 
+ * @internal
+ */
+function matches(schema: Joi.Schema, value: unknown): boolean {
+  return !schema.validate(value, { convert: false }).error;
+}
+
+/**
+ * Validates the response body of an operation
+ * 
+ * @param operation - Operation that returned the body, e.g. `searchListingsItems`
+ * @param data - Response body
+ * @returns Joi validation result, or undefined for operations without a response schema
+ * 
+ * @remarks
+ * Every failure is reported, and unknown fields are allowed so that new fields
+ * added by Amazon do not fail validation.
+ */
+export function validateOperationResponse(operation: string, data: unknown): Joi.ValidationResult | undefined {
+  const schema = OPERATION_RESPONSE_SCHEMAS[operation];
+  return schema?.validate(data, { abortEarly: false, convert: false });
+}
+
+/**
+ * Validates the response body of an operation and returns a typed error if it is invalid
+ * 
+ * @param operation - Operation that returned the body
+ * @param data - Response body
+ * @returns A SpApiValidationError of kind `response`, or undefined if the body is valid
+ * 
+ * @example
+ * ```typescript
+ * const error = getResponseValidationError('searchListingsItems', body);
+ * if (error) {
+ *   console.warn(error.details.map(d => d.path));
+ * }
+ * ```
+ */
+export function getResponseValidationError(operation: string, data: unknown): SpApiValidationError | undefined {
+  const result = validateOperationResponse(operation, data);
+  if (!result?.error) {
+    return undefined;
+  }
+
+  const messages = result.error.details.map(d => d.message).join(', ');
+  return createSpApiValidationError('response', result.error, `Invalid ${operation} response: ${messages}`);
+}
+
+/**
+ * Checks whether a value is a Money amount
+ */
+export function isMoney(value: unknown): value is Money {
+  return matches(moneySchema, value);
+}
+
+/**
+ * Checks whether a value is an ItemSummary
+ */
+export function isItemSummary(value: unknown): value is ItemSummary {
+  return matches(itemSummarySchema, value);
+}
+
+/**
+ * Checks whether a value is a ListingIssue
+ */
+export function isListingIssue(value: unknown): value is ListingIssue {
+  return matches(listingIssueSchema, value);
+}
+
+/**
+ * Checks whether a value is an Offer
+ */
+export function isOffer(value: unknown): value is Offer {
+  return matches(offerSchema, value);
+}
+
+/**
+ * Checks whether a value is a FulfillmentAvailability entry
+ */
+export function isFulfillmentAvailability(value: unknown): value is FulfillmentAvailability {
+  return matches(fulfillmentAvailabilitySchema, value);
+}
+
+/**
+ * Checks whether a value is a MarketplaceRelationships entry
+ */
+export function isMarketplaceRelationships(value: unknown): value is MarketplaceRelationships {
+  return matches(marketplaceRelationshipsSchema, value);
+}
+
+/**
+ * Checks whether a value is a ProductType entry
+ */
+export function isProductType(value: unknown): value is ProductType {
+  return matches(productTypeEntrySchema, value);
+}
+
+/**
+ * Checks whether a value is a ListingItem, including all of its included data
+ * 
+ * @example
+ * ```typescript
+ * const body: unknown = JSON.parse(text);
+ * if (isListingItem(body)) {
+ *   console.log(body.sku, body.summaries?.[0]?.status);
+ * }
+ * ```
+ */
+export function isListingItem(value: unknown): value is ListingItem {
+  return matches(listingItemSchema, value);
+}
+
+/**
+ * Checks whether a value is a SearchListingsItemsResponse
+ */
+export function isSearchListingsItemsResponse(value: unknown): value is SearchListingsItemsResponse {
+  return matches(searchListingsItemsResponseSchema, value);
+}
+
+/**
+ * Checks whether a value is a ListingsItemSubmissionResponse
+ */
+export function isListingsItemSubmissionResponse(value: unknown): value is ListingsItemSubmissionResponse {
+  return matches(listingsItemSubmissionResponseSchema, value);
+}
+
+/**
+ * Checks whether a value is a ProductTypeList
+ */
+export function isProductTypeList(value: unknown): value is ProductTypeList {
+  return matches(productTypeListSchema, value);
+}
+
+/**
+ * Checks whether a value is a ProductTypeDefinition
+ */
+export function isProductTypeDefinition(value: unknown): value is ProductTypeDefinition {
+  return matches(productTypeDefinitionSchema, value);
+}
@@ -0,0 +1,152 @@
+/**
+ * Retry utilities for Amazon SP-API Client
+ * 
+ * This module contains the backoff calculation and retry loop used to
+ * repeat throttled, failed and unreachable requests.
+ * 
+ * @group Retry
+ */
+
+import type { RetryPolicy } from './types.js';
+import { SpApiClientError } from './errors.js';
+
+/**
+ * Retry policy values used when a field is not configured
+ */
+export const DEFAULT_RETRY_POLICY: Required<Omit<RetryPolicy, 'shouldRetry'>> = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 20000,
+  jitter: 'full',
+  respectRetryAfter: true,
+};
+
+/**
+ * Default retry predicate
+ * 
+ * @param error - Error from the failed attempt
+ * @returns True for rate limit (429), server (5xx) and network errors
+ * 
+ * @example
+ * ```typescript
+ * import { isRetryableError, SpApiClientError } from './amazon-sp-api-client.js';
+ * 
+ * console.log(isRetryableError(new SpApiClientError(503, []))); // true
+ * console.log(isRetryableError(new SpApiClientError(400, []))); // false
+ * ```
+ */
+export function isRetryableError(error: SpApiClientError): boolean {
+  return error.isRateLimitError() || error.isServerError() || error.isNetworkError();
+}
+
+/**
+ * Computes the delay before the next attempt
+ * 
+ * @param policy - Retry policy in effect
+ * @param attempt - Number of the attempt that just failed (1-based)
+ * @param error - Error from the failed attempt
+ * @param random - Source of randomness in [0, 1) used for jitter
+ * @returns Delay in milliseconds
+ * 
+ * @example
+ * ```typescript
+ * // Without jitter: 500ms, 1000ms, 2000ms, ...
+ * const delay = computeRetryDelay({ jitter: 'none' }, 2, error); // 1000
+ * ```
+ */
+export function computeRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  error: SpApiClientError,
+  random: () => number = Math.random
+): number {
+  const maxDelayMs = policy.maxDelayMs ?? DEFAULT_RETRY_POLICY.maxDelayMs;
+  const respectRetryAfter = policy.respectRetryAfter ?? DEFAULT_RETRY_POLICY.respectRetryAfter;
+  if (respectRetryAfter && error.retryAfterMs !== undefined) {
+    // A server asking for a longer wait than the policy allows is capped, not obeyed
+    return Math.min(maxDelayMs, error.retryAfterMs);
+  }
+
+  const baseDelayMs = policy.baseDelayMs ?? DEFAULT_RETRY_POLICY.baseDelayMs;
+  const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+
+  switch (policy.jitter ?? DEFAULT_RETRY_POLICY.jitter) {
+    case 'full':
+      return Math.floor(random() * backoff);
+    case 'equal':
+      return Math.floor(backoff / 2 + random() * (backoff / 2));
+    case 'none':
+    default:
+      return backoff;
+  }
+}
+
+/**
+ * Waits for the given number of milliseconds
+ * 
+ * @param ms - Delay in milliseconds
+ * @param signal - Optional signal that cancels the wait
+ * @returns Promise resolving after the delay, or rejecting when aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs an operation, retrying it according to the retry policy
+ * 
+ * @param operation - Operation to run; receives the 1-based attempt number
+ * @param policy - Retry policy in effect
+ * @param signal - Optional signal that stops further attempts
+ * @returns Promise resolving to the operation's result
+ * @throws {SpApiClientError} The last error, with `attempts` set to the number of attempts made
+ * 
+ * @example
+ * ```typescript
+ * const data = await withRetry(
+ *   () => fetchSomething(),
+ *   { maxAttempts: 4, baseDelayMs: 250 }
+ * );
+ * ```
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  signal?: AbortSignal
+): Promise<T> {
+  const maxAttempts = policy.maxAttempts ?? DEFAULT_RETRY_POLICY.maxAttempts;
+  const shouldRetry = policy.shouldRetry ?? isRetryableError;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (!(error instanceof SpApiClientError)) {
+        throw error;
+      }
+
+      error.attempts = attempt;
+      if (attempt >= maxAttempts || signal?.aborted || !shouldRetry(error, attempt)) {
+        throw error;
+      }
+
+      await sleep(computeRetryDelay(policy, attempt, error), signal);
+    }
+  }
+}
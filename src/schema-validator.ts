@@ -0,0 +1,606 @@
+/**
+ * Product type schema validation for Amazon SP-API Client
+ * 
+ * This module contains a local validator for listing attributes against the
+ * JSON Schema of a product type definition, reporting failures as listing issues.
+ * 
+ * @group Product Types
+ */
+
+import type {
+  AttributeValidationOptions,
+  JsonSchema,
+  ListingIssue
+} from './types.js';
+
+/**
+ * Location of a value inside the attributes
+ * 
+ * @internal
+ */
+type SchemaPath = Array<string | number>;
+
+/**
+ * A single schema failure, before it is turned into a listing issue
+ * 
+ * @internal
+ */
+interface SchemaFailure {
+  /** Keyword that failed, e.g. `maxLength` */
+  keyword: string;
+
+  /** Location of the failing value */
+  path: SchemaPath;
+
+  /** Message without the attribute label */
+  message: string;
+
+  /** Title of the schema the value was validated against, if any */
+  title: string | undefined;
+}
+
+/**
+ * Maximum number of allowed values listed in an enum failure message
+ */
+const MAX_LISTED_ENUM_VALUES = 10;
+
+/**
+ * Keywords whose failures mean a value is missing rather than invalid
+ */
+const MISSING_ATTRIBUTE_KEYWORDS = new Set(['required', 'dependentRequired']);
+
+/**
+ * Shared UTF-8 encoder
+ */
+const encoder = new TextEncoder();
+
+/**
+ * Formats a path as `a[0].b`
+ * 
+ * @internal
+ */
+function formatPath(path: SchemaPath): string {
+  return path.map((segment, i) => typeof segment === 'number' ? `[${segment}]` : i === 0 ? segment : `.${segment}`).join('');
+}
+
+/**
+ * Converts a keyword into an issue code, e.g. `maxLength` into `SCHEMA_MAX_LENGTH`
+ * 
+ * @internal
+ */
+function toIssueCode(keyword: string): string {
+  return `SCHEMA_${keyword.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase()}`;
+}
+
+/**
+ * Gets the JSON type of a value
+ * 
+ * @internal
+ */
+function typeOf(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value;
+}
+
+/**
+ * Checks a value against a JSON Schema type name
+ * 
+ * @internal
+ */
+function hasType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeOf(value) === type;
+  }
+}
+
+/**
+ * Compares two JSON values structurally
+ * 
+ * @internal
+ */
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (typeOf(a) !== typeOf(b) || typeof a !== 'object' || a === null) {
+    return false;
+  }
+  if (Array.isArray(a)) {
+    const other = b as unknown[];
+    return a.length === other.length && a.every((item, i) => deepEqual(item, other[i]));
+  }
+
+  const objectA = a as Record<string, unknown>;
+  const objectB = b as Record<string, unknown>;
+  const keys = Object.keys(objectA);
+  return keys.length === Object.keys(objectB).length
+    && keys.every(key => Object.prototype.hasOwnProperty.call(objectB, key) && deepEqual(objectA[key], objectB[key]));
+}
+
+/**
+ * Checks the `date` and `date-time` formats; other formats are not checked
+ * 
+ * @internal
+ */
+function matchesFormat(value: string, format: string): boolean {
+  if (format === 'date') {
+    return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+  }
+  if (format === 'date-time') {
+    return /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/i.test(value) && !Number.isNaN(Date.parse(value));
+  }
+  return true;
+}
+
+/**
+ * Compiles a regular expression
+ * 
+ * @internal
+ */
+function compilePattern(pattern: string, flags: string): RegExp | null {
+  try {
+    return new RegExp(pattern, flags);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Validates listing attributes against the JSON Schema of a product type
+ * 
+ * @group Classes
+ * @remarks
+ * The validator works offline from a schema downloaded once with
+ * {@link AmazonSpApiClient.getProductTypeSchema} and stored, so payloads can be
+ * checked before `putListingsItem` or `patchListingsItem` is called. Failures
+ * are reported as {@link ListingIssue} objects with `ERROR` severity, codes such
+ * as `SCHEMA_REQUIRED` and the top-level attribute in `attributeNames`.
+ * 
+ * The validator supports the JSON Schema keywords used by product type schemas,
+ * including local `$ref`s, `allOf`/`anyOf`/`oneOf`/`not`, `if`/`then`/`else`,
+ * and Amazon's `selectors`, `maxUniqueItems` and `maxUtf8ByteLength` extensions.
+ * Only the `date` and `date-time` formats are checked, and remote `$ref`s are ignored.
+ * Amazon may still report issues that depend on catalog data or seller permissions.
+ * 
+ * @example
+ * ```typescript
+ * const definition = await client.getDefinitionsProductType({
+ *   productType: 'LUGGAGE',
+ *   marketplaceIds: ['ATVPDKIKX0DER'],
+ *   sellerId: 'A1B2C3D4E5F6G7'
+ * });
+ * const schema = await client.getProductTypeSchema(definition);
+ * await writeFile('luggage.schema.json', JSON.stringify(schema)); // reuse later
+ * 
+ * const validator = new ProductTypeSchemaValidator(schema);
+ * const issues = validator.validate(attributes);
+ * if (issues.length > 0) {
+ *   console.log(issues.map(issue => issue.message));
+ * }
+ * ```
+ */
+export class ProductTypeSchemaValidator {
+  /**
+   * Root schema, used to resolve `$ref`s
+   */
+  private readonly schema: JsonSchema;
+
+  /**
+   * Compiled `pattern` expressions; null for patterns that do not compile
+   */
+  private readonly patterns = new Map<string, RegExp | null>();
+
+  /**
+   * Creates a new validator
+   * 
+   * @param schema - JSON Schema of a product type, as downloaded
+   */
+  constructor(schema: JsonSchema) {
+    this.schema = schema;
+  }
+
+  /**
+   * Validates listing attributes
+   * 
+   * @param attributes - Attributes of a listing, as sent in `putListingsItem`
+   * @param options - Whether missing required attributes are reported
+   * @returns One issue per failure; empty when the attributes are valid
+   */
+  public validate(attributes: Record<string, unknown>, options: AttributeValidationOptions = {}): ListingIssue[] {
+    const failures: SchemaFailure[] = [];
+    this.validateValue(this.schema, attributes, [], failures);
+
+    // Missing top-level attributes include those required by conditional subschemas
+    const reported = options.checkRequired === false
+      ? failures.filter(failure => failure.path.length !== 1 || !MISSING_ATTRIBUTE_KEYWORDS.has(failure.keyword))
+      : failures;
+
+    return reported.map(failure => {
+      const attributeName = typeof failure.path[0] === 'string' ? failure.path[0] : undefined;
+      const label = failure.title || this.getAttributeTitle(attributeName) || attributeName || 'attributes';
+      const location = failure.path.length > 1 ? ` (${formatPath(failure.path)})` : '';
+
+      const issue: ListingIssue = {
+        code: toIssueCode(failure.keyword),
+        message: `'${label}'${location} ${failure.message}`,
+        severity: 'ERROR',
+        categories: [MISSING_ATTRIBUTE_KEYWORDS.has(failure.keyword) ? 'MISSING_ATTRIBUTE' : 'INVALID_ATTRIBUTE']
+      };
+      if (attributeName) {
+        issue.attributeNames = [attributeName];
+      }
+      return issue;
+    });
+  }
+
+  /**
+   * Checks whether attributes are valid
+   * 
+   * @param attributes - Attributes of a listing
+   * @param options - Whether missing required attributes are reported
+   * @returns True when {@link validate} reports no issues
+   */
+  public isValid(attributes: Record<string, unknown>, options?: AttributeValidationOptions): boolean {
+    return this.validate(attributes, options).length === 0;
+  }
+
+  /**
+   * Gets the title of a top-level attribute, used to label failures inside it
+   * 
+   * @internal
+   */
+  private getAttributeTitle(name: string | undefined): string | undefined {
+    const property = name === undefined ? undefined : this.schema.properties?.[name];
+    return typeof property === 'object' ? property.title : undefined;
+  }
+
+  /**
+   * Validates a value against a schema, collecting failures
+   * 
+   * @internal
+   */
+  private validateValue(schema: JsonSchema | boolean, value: unknown, path: SchemaPath, failures: SchemaFailure[]): void {
+    if (schema === true) {
+      return;
+    }
+    if (schema === false) {
+      failures.push({ keyword: 'false', path, message: 'is not allowed.', title: undefined });
+      return;
+    }
+
+    const fail = (keyword: string, message: string, at: SchemaPath = path, title: string | undefined = schema.title) => {
+      failures.push({ keyword, path: at, message, title });
+    };
+
+    if (schema.$ref !== undefined) {
+      const target = this.resolveRef(schema.$ref);
+      if (target !== undefined) {
+        this.validateValue(target, value, path, failures);
+      }
+    }
+
+    if (schema.type !== undefined) {
+      const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+      if (!types.some(type => hasType(value, type))) {
+        fail('type', `must be of type ${types.join(' or ')}.`);
+        return;
+      }
+    }
+
+    if (schema.enum && !schema.enum.some(allowed => deepEqual(allowed, value))) {
+      const names = schema.enumNames || schema.enum.map(allowed => JSON.stringify(allowed));
+      const listed = names.slice(0, MAX_LISTED_ENUM_VALUES).join(', ');
+      const more = names.length > MAX_LISTED_ENUM_VALUES ? ` and ${names.length - MAX_LISTED_ENUM_VALUES} more` : '';
+      fail('enum', `must be one of the following values: ${listed}${more}.`);
+    }
+
+    if (schema.const !== undefined && !deepEqual(schema.const, value)) {
+      fail('const', `must be ${JSON.stringify(schema.const)}.`);
+    }
+
+    if (typeof value === 'string') {
+      this.validateString(schema, value, fail);
+    } else if (typeof value === 'number') {
+      this.validateNumber(schema, value, fail);
+    } else if (Array.isArray(value)) {
+      this.validateArray(schema, value, path, failures, fail);
+    } else if (typeof value === 'object' && value !== null) {
+      this.validateObject(schema, value as Record<string, unknown>, path, failures, fail);
+    }
+
+    this.validateCombinators(schema, value, path, failures, fail);
+  }
+
+  /**
+   * Validates string keywords
+   * 
+   * @internal
+   */
+  private validateString(schema: JsonSchema, value: string, fail: (keyword: string, message: string) => void): void {
+    const length = Array.from(value).length;
+    if (schema.minLength !== undefined && length < schema.minLength) {
+      fail('minLength', `must be at least ${schema.minLength} characters.`);
+    }
+    if (schema.maxLength !== undefined && length > schema.maxLength) {
+      fail('maxLength', `must be at most ${schema.maxLength} characters.`);
+    }
+
+    const bytes = schema.minUtf8ByteLength !== undefined || schema.maxUtf8ByteLength !== undefined
+      ? encoder.encode(value).length
+      : 0;
+    if (schema.minUtf8ByteLength !== undefined && bytes < schema.minUtf8ByteLength) {
+      fail('minUtf8ByteLength', `must be at least ${schema.minUtf8ByteLength} bytes.`);
+    }
+    if (schema.maxUtf8ByteLength !== undefined && bytes > schema.maxUtf8ByteLength) {
+      fail('maxUtf8ByteLength', `must be at most ${schema.maxUtf8ByteLength} bytes.`);
+    }
+
+    if (schema.pattern !== undefined) {
+      const regex = this.getPattern(schema.pattern);
+      if (!regex) {
+        fail('pattern', `cannot be checked because the schema pattern is not a valid regular expression.`);
+      } else if (!regex.test(value)) {
+        fail('pattern', `does not match the required format.`);
+      }
+    }
+    if (schema.format !== undefined && !matchesFormat(value, schema.format)) {
+      fail('format', `must be a valid ${schema.format}.`);
+    }
+  }
+
+  /**
+   * Validates numeric keywords
+   * 
+   * @internal
+   */
+  private validateNumber(schema: JsonSchema, value: number, fail: (keyword: string, message: string) => void): void {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      fail('minimum', `must be greater than or equal to ${schema.minimum}.`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      fail('maximum', `must be less than or equal to ${schema.maximum}.`);
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      fail('exclusiveMinimum', `must be greater than ${schema.exclusiveMinimum}.`);
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      fail('exclusiveMaximum', `must be less than ${schema.exclusiveMaximum}.`);
+    }
+    if (schema.multipleOf !== undefined && schema.multipleOf > 0) {
+      // Compare with a tolerance so decimal steps such as 0.01 work
+      const quotient = value / schema.multipleOf;
+      if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+        fail('multipleOf', `must be a multiple of ${schema.multipleOf}.`);
+      }
+    }
+  }
+
+  /**
+   * Validates array keywords and items
+   * 
+   * @internal
+   */
+  private validateArray(
+    schema: JsonSchema,
+    value: unknown[],
+    path: SchemaPath,
+    failures: SchemaFailure[],
+    fail: (keyword: string, message: string) => void
+  ): void {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail('minItems', `must have at least ${schema.minItems} values.`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      fail('maxItems', `must have at most ${schema.maxItems} values.`);
+    }
+    if (schema.uniqueItems && value.some((item, i) => value.findIndex(other => deepEqual(other, item)) !== i)) {
+      fail('uniqueItems', 'must not contain duplicate values.');
+    }
+
+    // Amazon extension: items are identified by their selector fields, e.g. marketplace_id and language_tag
+    if (schema.selectors?.length) {
+      const keys = value.map(item => JSON.stringify(schema.selectors!.map(selector =>
+        typeof item === 'object' && item !== null ? (item as Record<string, unknown>)[selector] ?? null : null
+      )));
+      const unique = new Set(keys);
+      if (unique.size < keys.length) {
+        fail('selectors', `must not contain more than one value for the same ${schema.selectors.join(' and ')}.`);
+      }
+      if (schema.maxUniqueItems !== undefined && unique.size > schema.maxUniqueItems) {
+        fail('maxUniqueItems', `must have at most ${schema.maxUniqueItems} unique values.`);
+      }
+    }
+
+    if (schema.items !== undefined) {
+      value.forEach((item, i) => this.validateValue(schema.items!, item, [...path, i], failures));
+    }
+
+    if (schema.contains !== undefined) {
+      const matches = value.filter(item => this.matches(schema.contains!, item)).length;
+      const min = schema.minContains ?? 1;
+      if (matches < min) {
+        fail('contains', `must contain at least ${min} matching value${min === 1 ? '' : 's'}.`);
+      }
+      if (schema.maxContains !== undefined && matches > schema.maxContains) {
+        fail('maxContains', `must contain at most ${schema.maxContains} matching values.`);
+      }
+    }
+  }
+
+  /**
+   * Validates object keywords and properties
+   * 
+   * @internal
+   */
+  private validateObject(
+    schema: JsonSchema,
+    value: Record<string, unknown>,
+    path: SchemaPath,
+    failures: SchemaFailure[],
+    fail: (keyword: string, message: string, at?: SchemaPath, title?: string) => void
+  ): void {
+    const names = Object.keys(value);
+
+    for (const name of schema.required || []) {
+      if (value[name] === undefined) {
+        const property = schema.properties?.[name];
+        const title = typeof property === 'object' ? property.title : undefined;
+        fail('required', 'is required but not supplied.', [...path, name], title || name);
+      }
+    }
+
+    for (const [name, required] of Object.entries(schema.dependentRequired || {})) {
+      if (value[name] === undefined) {
+        continue;
+      }
+      for (const dependency of required) {
+        if (value[dependency] === undefined) {
+          fail('dependentRequired', `is required when '${name}' is supplied.`, [...path, dependency], dependency);
+        }
+      }
+    }
+
+    if (schema.minProperties !== undefined && names.length < schema.minProperties) {
+      fail('minProperties', `must have at least ${schema.minProperties} properties.`);
+    }
+    if (schema.maxProperties !== undefined && names.length > schema.maxProperties) {
+      fail('maxProperties', `must have at most ${schema.maxProperties} properties.`);
+    }
+
+    for (const name of names) {
+      if (value[name] === undefined) {
+        continue;
+      }
+      const property = schema.properties?.[name];
+      if (property !== undefined) {
+        this.validateValue(property, value[name], [...path, name], failures);
+      } else if (schema.additionalProperties === false) {
+        fail('additionalProperties', 'is not a recognized attribute.', [...path, name], name);
+      } else if (typeof schema.additionalProperties === 'object') {
+        this.validateValue(schema.additionalProperties, value[name], [...path, name], failures);
+      }
+    }
+  }
+
+  /**
+   * Validates `allOf`, `anyOf`, `oneOf`, `not` and `if`/`then`/`else`
+   * 
+   * @internal
+   */
+  private validateCombinators(
+    schema: JsonSchema,
+    value: unknown,
+    path: SchemaPath,
+    failures: SchemaFailure[],
+    fail: (keyword: string, message: string) => void
+  ): void {
+    for (const subschema of schema.allOf || []) {
+      this.validateValue(subschema, value, path, failures);
+    }
+
+    if (schema.anyOf && !schema.anyOf.some(subschema => this.matches(subschema, value))) {
+      fail('anyOf', 'does not match any of the allowed formats.');
+    }
+
+    if (schema.oneOf) {
+      const matching = schema.oneOf.filter(subschema => this.matches(subschema, value)).length;
+      if (matching !== 1) {
+        fail('oneOf', matching === 0
+          ? 'does not match any of the allowed formats.'
+          : 'matches more than one of the allowed formats.');
+      }
+    }
+
+    if (schema.not !== undefined && this.matches(schema.not, value)) {
+      fail('not', 'has a value that is not allowed.');
+    }
+
+    // Conditional requirements report the failures of the branch that applies
+    if (schema.if !== undefined) {
+      const branch = this.matches(schema.if, value) ? schema.then : schema.else;
+      if (branch !== undefined) {
+        this.validateValue(branch, value, path, failures);
+      }
+    }
+  }
+
+  /**
+   * Checks a value against a schema without reporting failures
+   * 
+   * @internal
+   */
+  private matches(schema: JsonSchema | boolean, value: unknown): boolean {
+    const failures: SchemaFailure[] = [];
+    this.validateValue(schema, value, [], failures);
+    return failures.length === 0;
+  }
+
+  /**
+   * Resolves a local `$ref` such as `#/$defs/marketplace_id`
+   * 
+   * @internal
+   */
+  private resolveRef(ref: string): JsonSchema | boolean | undefined {
+    if (!ref.startsWith('#')) {
+      return undefined;
+    }
+
+    let current: unknown = this.schema;
+    for (const segment of ref.slice(1).split('/').filter(Boolean)) {
+      if (typeof current !== 'object' || current === null) {
+        return undefined;
+      }
+      current = (current as Record<string, unknown>)[decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~')];
+    }
+
+    return typeof current === 'object' || typeof current === 'boolean' ? current as JsonSchema | boolean : undefined;
+  }
+
+  /**
+   * Gets a compiled `pattern` expression, or null when the pattern does not compile
+   * 
+   * @internal
+   * @remarks
+   * Patterns are compiled in Unicode mode as JSON Schema expects, falling back to
+   * non-Unicode mode for the identity escapes such as `\-` that product type
+   * schemas use and Unicode mode rejects.
+   */
+  private getPattern(pattern: string): RegExp | null {
+    let regex = this.patterns.get(pattern);
+    if (regex === undefined) {
+      regex = compilePattern(pattern, 'u') || compilePattern(pattern, '');
+      this.patterns.set(pattern, regex);
+    }
+    return regex;
+  }
+}
+
+/**
+ * Validates listing attributes against the JSON Schema of a product type
+ * 
+ * @param schema - JSON Schema of a product type
+ * @param attributes - Attributes of a listing
+ * @param options - Whether missing required attributes are reported
+ * @returns One issue per failure; empty when the attributes are valid
+ * 
+ * @remarks
+ * Creates a {@link ProductTypeSchemaValidator} for a single call; keep a
+ * validator instance when validating many listings against the same schema.
+ */
+export function validateListingAttributes(
+  schema: JsonSchema,
+  attributes: Record<string, unknown>,
+  options?: AttributeValidationOptions
+): ListingIssue[] {
+  return new ProductTypeSchemaValidator(schema).validate(attributes, options);
+}
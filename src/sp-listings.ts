@@ -0,0 +1,10 @@
+#!/usr/bin/env node
+/**
+ * Entry point of the `sp-listings` command-line tool
+ * 
+ * @group CLI
+ */
+
+import { runCli } from './cli.js';
+
+process.exitCode = await runCli(process.argv.slice(2));
@@ -0,0 +1,346 @@
+/**
+ * Incremental listing sync for Amazon SP-API Client
+ * 
+ * This module contains a sync engine that fetches only the listing items
+ * updated since the previous run, reports them to a consumer and checkpoints
+ * its progress so an interrupted run can resume.
+ * 
+ * @group Sync
+ */
+
+import type {
+  DateInput,
+  ListingItem,
+  ListingsSyncOptions,
+  SearchListingsItemsQueryParams,
+  SpApiRequestOptions,
+  SyncCheckpoint,
+  SyncCheckpointStore,
+  SyncEvent,
+  SyncRunResult,
+  ValidationErrorDetail
+} from './types.js';
+import type { AmazonSpApiClient } from './client.js';
+import { SpApiValidationError } from './errors.js';
+
+/**
+ * Search parameters the sync sets itself
+ */
+const SYNC_CONTROLLED_PARAMS: readonly (keyof SearchListingsItemsQueryParams)[] = [
+  'lastUpdatedAfter', 'lastUpdatedBefore', 'sortBy', 'sortOrder', 'pageToken'
+];
+
+/**
+ * How far before the high-water mark each run starts, in milliseconds
+ * 
+ * @remarks
+ * Starting slightly early makes items updated at exactly the high-water mark
+ * come back whether the API treats `lastUpdatedAfter` as inclusive or not;
+ * the ones already processed are skipped.
+ */
+const BOUNDARY_OVERLAP_MS = 1000;
+
+/**
+ * Gets the latest valid `lastUpdatedDate` of an item's summaries
+ * 
+ * @internal
+ */
+function getLastUpdatedDate(item: ListingItem): string | undefined {
+  let latest: string | undefined;
+  for (const summary of item.summaries || []) {
+    const time = Date.parse(summary.lastUpdatedDate);
+    if (!Number.isNaN(time) && (!latest || time > Date.parse(latest))) {
+      latest = summary.lastUpdatedDate;
+    }
+  }
+  return latest;
+}
+
+/**
+ * Gets the earliest `createdDate` of an item's summaries, in milliseconds since the epoch
+ * 
+ * @internal
+ */
+function getCreatedTime(item: ListingItem): number {
+  const times = (item.summaries || []).map(s => Date.parse(s.createdDate)).filter(t => !Number.isNaN(t));
+  return times.length ? Math.min(...times) : NaN;
+}
+
+/**
+ * In-memory sync checkpoint store
+ * 
+ * @group Classes
+ * @remarks
+ * Checkpoints are kept per process, so a sync using this store starts over
+ * after a restart. Use a persistent {@link SyncCheckpointStore} to resume
+ * across restarts.
+ * 
+ * @example
+ * ```typescript
+ * const store = new InMemorySyncCheckpointStore();
+ * const sync = new ListingsSync(client, { params, store, onEvent });
+ * ```
+ */
+export class InMemorySyncCheckpointStore implements SyncCheckpointStore {
+  /**
+   * Checkpoints by key, stored as JSON so callers cannot change them in place
+   */
+  private readonly checkpoints = new Map<string, string>();
+
+  /**
+   * Gets the checkpoint of a sync
+   * 
+   * @param key - Sync key
+   * @returns A copy of the checkpoint, or undefined when none is stored
+   */
+  public async load(key: string): Promise<SyncCheckpoint | undefined> {
+    const json = this.checkpoints.get(key);
+    return json === undefined ? undefined : JSON.parse(json) as SyncCheckpoint;
+  }
+
+  /**
+   * Stores the checkpoint of a sync
+   * 
+   * @param key - Sync key
+   * @param checkpoint - Checkpoint to store
+   */
+  public async save(key: string, checkpoint: SyncCheckpoint): Promise<void> {
+    this.checkpoints.set(key, JSON.stringify(checkpoint));
+  }
+}
+
+/**
+ * Incremental sync of listing items into a consumer
+ * 
+ * @group Classes
+ * @remarks
+ * Each run searches for items updated since the high-water mark of the
+ * previous run, oldest first (`sortBy: 'lastUpdatedDate'`, `sortOrder: 'ASC'`),
+ * up to the time the run started. Items updated while the run is in progress
+ * are left for the next run. The first run fetches every item, or those
+ * updated since `since`.
+ * 
+ * Every item is reported to `onEvent` as `added` when it was created within
+ * the run's window and `changed` otherwise. Once every event of a page has
+ * been handled, the checkpoint is saved with the next page token, so a run
+ * that fails or is aborted resumes from the first page it did not finish.
+ * The page being processed when a run stops is reported again on resume, so
+ * the consumer should upsert rather than insert.
+ * 
+ * Items updated at exactly the high-water mark are handled without gaps or
+ * duplicates: the checkpoint records the SKUs processed at that timestamp,
+ * each run starts just before it, and only SKUs not yet processed at that
+ * timestamp are reported. Items whose summaries have no valid
+ * `lastUpdatedDate` cannot be placed against the high-water mark; they are
+ * not reported and are counted in `undated`.
+ * 
+ * The window ends at the local time the run started. When the high-water
+ * mark is ahead of the local clock, the window is narrowed to that instant
+ * rather than reversed, and newer items are picked up once the local clock
+ * has caught up.
+ * 
+ * `summaries` is always requested, as it carries the dates the sync relies
+ * on. Responses are never served from the response cache.
+ * 
+ * @example
+ * ```typescript
+ * const sync = new ListingsSync(client, {
+ *   params: {
+ *     sellerId: 'A1B2C3D4E5F6G7',
+ *     marketplaceIds: ['ATVPDKIKX0DER'],
+ *     includedData: ['summaries', 'attributes', 'offers']
+ *   },
+ *   store: databaseCheckpointStore,
+ *   onEvent: async ({ type, item }) => {
+ *     await db.upsertListing(item);
+ *     if (type === 'added') console.log(`New listing ${item.sku}`);
+ *   }
+ * });
+ * 
+ * const { added, changed, highWaterMark } = await sync.run();
+ * console.log(`${added} added, ${changed} changed, up to date as of ${highWaterMark}`);
+ * ```
+ */
+export class ListingsSync {
+  /**
+   * Client used to search
+   */
+  private readonly client: AmazonSpApiClient;
+
+  /**
+   * Search parameters, without the ones the sync sets itself
+   */
+  private readonly params: SearchListingsItemsQueryParams;
+
+  /**
+   * Checkpoint storage
+   */
+  private readonly store: SyncCheckpointStore;
+
+  /**
+   * Key the checkpoint is stored under
+   */
+  private readonly key: string;
+
+  /**
+   * Consumer of added and changed items
+   */
+  private readonly onEvent: (event: SyncEvent) => void | Promise<void>;
+
+  /**
+   * Start of the first run
+   */
+  private readonly since: DateInput | undefined;
+
+  /**
+   * Creates a new incremental sync
+   * 
+   * @param client - Client used to search
+   * @param options - Search parameters, checkpoint storage and consumer
+   * @throws {SpApiValidationError} When the parameters set a field the sync controls, or `since` is not a valid date
+   */
+  constructor(client: AmazonSpApiClient, options: ListingsSyncOptions) {
+    const details: ValidationErrorDetail[] = SYNC_CONTROLLED_PARAMS
+      .filter(param => options.params[param] !== undefined)
+      .map(param => ({
+        path: param,
+        rule: 'any.unknown',
+        value: options.params[param],
+        message: `${param} is set by the sync and cannot be passed`
+      }));
+    if (options.since !== undefined && Number.isNaN(new Date(options.since).getTime())) {
+      details.push({ path: 'since', rule: 'date.base', value: options.since, message: 'since must be a valid date' });
+    }
+    if (details.length) {
+      throw new SpApiValidationError('request', details);
+    }
+
+    const includedData = options.params.includedData;
+    this.client = client;
+    this.params = {
+      ...options.params,
+      ...(includedData && !includedData.includes('summaries') ? { includedData: ['summaries', ...includedData] } : {})
+    };
+    this.store = options.store || new InMemorySyncCheckpointStore();
+    this.key = options.key || `${options.params.sellerId}:${[...options.params.marketplaceIds].sort().join(',')}`;
+    this.onEvent = options.onEvent;
+    this.since = options.since;
+  }
+
+  /**
+   * Gets the stored checkpoint
+   * 
+   * @returns The checkpoint, or undefined when the sync has never saved one
+   */
+  public getCheckpoint(): Promise<SyncCheckpoint | undefined> {
+    return this.store.load(this.key);
+  }
+
+  /**
+   * Runs the sync, resuming an interrupted run if there is one
+   * 
+   * @param options - Optional abort signal
+   * @returns Promise resolving to the number of pages and events once every page has been processed
+   * 
+   * @throws {SpApiValidationError} When the search parameters are invalid
+   * @throws {SpApiClientError} When the API returns an error response; the checkpoint of the last completed page is kept
+   * @throws When `onEvent` throws; the page is reported again by the next run
+   */
+  public async run(options: Pick<SpApiRequestOptions, 'signal'> = {}): Promise<SyncRunResult> {
+    const checkpoint: SyncCheckpoint = (await this.store.load(this.key)) || { boundarySkus: [] };
+    const previousMark = checkpoint.highWaterMark;
+    const previousTime = previousMark ? Date.parse(previousMark) : NaN;
+    const previousBoundary = new Set(checkpoint.boundarySkus);
+
+    const since = previousMark ?? (this.since === undefined ? undefined : new Date(this.since).toISOString());
+    const run = checkpoint.run || {
+      ...(since ? { lastUpdatedAfter: since } : {}),
+      lastUpdatedBefore: new Date().toISOString(),
+      pageToken: '',
+      boundarySkus: []
+    };
+    const windowStart = run.lastUpdatedAfter ? Date.parse(run.lastUpdatedAfter) : NaN;
+
+    const result: SyncRunResult = { resumed: checkpoint.run !== undefined, pages: 0, added: 0, changed: 0, skipped: 0, undated: 0 };
+    let mark = run.highWaterMark;
+    let boundary = new Set(run.boundarySkus);
+    let pageToken = run.pageToken;
+
+    do {
+      options.signal?.throwIfAborted();
+
+      const params: SearchListingsItemsQueryParams = {
+        ...this.params,
+        lastUpdatedBefore: run.lastUpdatedBefore,
+        sortBy: 'lastUpdatedDate',
+        sortOrder: 'ASC'
+      };
+      if (run.lastUpdatedAfter) {
+        // A high-water mark from Amazon's clock can be ahead of the local one; the range must not be reversed
+        const after = Math.min(windowStart - BOUNDARY_OVERLAP_MS, Date.parse(run.lastUpdatedBefore));
+        params.lastUpdatedAfter = new Date(after).toISOString();
+      }
+      if (pageToken) {
+        params.pageToken = pageToken;
+      }
+
+      const page = await this.client.searchListingsItems(params, {
+        cache: 'bypass',
+        ...(options.signal ? { signal: options.signal } : {})
+      });
+      result.pages++;
+
+      for (const item of page.items) {
+        const lastUpdatedDate = getLastUpdatedDate(item);
+        // Without a date the item cannot be placed against the high-water mark, and would be reported on every run
+        if (!lastUpdatedDate) {
+          result.undated++;
+          continue;
+        }
+        const time = Date.parse(lastUpdatedDate);
+
+        // Items before the previous high-water mark, or at it and already processed, were reported by an earlier run
+        if (time < previousTime || (time === previousTime && previousBoundary.has(item.sku))) {
+          result.skipped++;
+          continue;
+        }
+
+        const created = getCreatedTime(item);
+        const type = Number.isNaN(windowStart) || created >= windowStart ? 'added' : 'changed';
+        await this.onEvent({ type, item, lastUpdatedDate });
+        result[type]++;
+
+        if (!mark || time > Date.parse(mark)) {
+          mark = lastUpdatedDate;
+          boundary = new Set([item.sku]);
+        } else if (time === Date.parse(mark)) {
+          boundary.add(item.sku);
+        }
+      }
+
+      pageToken = page.pagination?.nextToken || '';
+      if (pageToken) {
+        await this.store.save(this.key, {
+          ...checkpoint,
+          run: { ...run, pageToken, ...(mark ? { highWaterMark: mark } : {}), boundarySkus: [...boundary] }
+        });
+      }
+    } while (pageToken);
+
+    // Without newer items the previous high-water mark and its SKUs still apply
+    const completed: SyncCheckpoint = { boundarySkus: [...previousBoundary] };
+    if (mark && (!previousMark || Date.parse(mark) > previousTime)) {
+      completed.highWaterMark = mark;
+      completed.boundarySkus = [...boundary];
+    } else if (previousMark) {
+      completed.highWaterMark = previousMark;
+      completed.boundarySkus = [...new Set([...previousBoundary, ...boundary])];
+    }
+    await this.store.save(this.key, completed);
+
+    if (completed.highWaterMark) {
+      result.highWaterMark = completed.highWaterMark;
+    }
+    return result;
+  }
+}
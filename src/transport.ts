@@ -0,0 +1,227 @@
+/**
+ * HTTP transports for Amazon SP-API Client
+ * 
+ * This module contains the built-in implementations of the HttpTransport
+ * interface: one backed by axios and one backed by the Fetch API.
+ * 
+ * @group Transport
+ */
+
+import axios, { type AxiosInstance, type AxiosRequestConfig } from 'axios';
+import type {
+  AxiosHttpTransportOptions,
+  FetchHttpTransportOptions,
+  HttpRequest,
+  HttpResponse,
+  HttpTransport
+} from './types.js';
+import { HttpTransportError } from './errors.js';
+
+/**
+ * Parses a response body as JSON, falling back to the raw text
+ * 
+ * @param text - Raw response body
+ * @returns Parsed JSON, the raw text if it is not JSON, or undefined if empty
+ * 
+ * @internal
+ */
+function parseResponseBody(text: string): unknown {
+  if (text === '') {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Converts a header collection into a plain object with lower-case names
+ * 
+ * @param headers - Headers as an object or an iterable of name/value pairs
+ * @returns Normalized headers
+ * 
+ * @internal
+ */
+function normalizeHeaders(headers: Iterable<[string, string]> | Record<string, unknown>): Record<string, string> {
+  const normalized: Record<string, string> = {};
+  const entries = Symbol.iterator in headers
+    ? Array.from(headers as Iterable<[string, string]>)
+    : Object.entries(headers);
+
+  for (const [name, value] of entries) {
+    if (value !== undefined && value !== null) {
+      normalized[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+    }
+  }
+
+  return normalized;
+}
+
+/**
+ * HTTP transport backed by axios
+ * 
+ * @group Classes
+ * @remarks
+ * This is the client's default transport. Pass a configured axios instance or
+ * extra request configuration to use proxies, keep-alive agents or custom TLS.
+ * 
+ * @example
+ * ```typescript
+ * import https from 'node:https';
+ * import { AmazonSpApiClient, AxiosHttpTransport } from './amazon-sp-api-client.js';
+ * 
+ * const client = new AmazonSpApiClient({
+ *   baseUrl: 'https://sellingpartnerapi-na.amazon.com',
+ *   transport: new AxiosHttpTransport({
+ *     config: { httpsAgent: new https.Agent({ keepAlive: true }) }
+ *   })
+ * });
+ * ```
+ */
+export class AxiosHttpTransport implements HttpTransport {
+  /**
+   * Axios instance used to send requests
+   */
+  private readonly axiosInstance: AxiosInstance;
+
+  /**
+   * Extra configuration merged into every request
+   */
+  private readonly config: AxiosRequestConfig;
+
+  /**
+   * Creates a new axios-backed transport
+   * 
+   * @param options - Optional axios instance and request configuration
+   */
+  constructor(options: AxiosHttpTransportOptions = {}) {
+    this.axiosInstance = options.axiosInstance || axios;
+    this.config = options.config || {};
+  }
+
+  /**
+   * Sends a request with axios
+   * 
+   * @param request - The request to send
+   * @returns Promise resolving to the response, whatever its status code
+   * @throws {HttpTransportError} When no response is received
+   */
+  public async request<T = unknown>(request: HttpRequest): Promise<HttpResponse<T>> {
+    try {
+      const response = await this.axiosInstance.request<string>({
+        ...this.config,
+        method: request.method,
+        url: request.url,
+        headers: { ...this.config.headers, ...request.headers },
+        timeout: request.timeout,
+        ...(request.body !== undefined ? { data: request.body } : {}),
+        ...(request.signal ? { signal: request.signal } : {}),
+        // Parse the body ourselves so every transport behaves the same
+        responseType: 'text',
+        transformResponse: [(data: string) => data],
+        validateStatus: () => true,
+      });
+
+      return {
+        status: response.status,
+        headers: normalizeHeaders({ ...response.headers }),
+        data: parseResponseBody(response.data ?? '') as T,
+      };
+    } catch (error) {
+      if (request.signal?.aborted) {
+        throw request.signal.reason;
+      }
+      if (axios.isAxiosError(error)) {
+        throw new HttpTransportError(error.request ? 'network' : 'setup', error.message, error);
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * HTTP transport backed by the Fetch API
+ * 
+ * @group Classes
+ * @remarks
+ * Suitable for runtimes that provide `fetch` natively (Node.js 18+, Deno, Bun,
+ * edge runtimes) or for plugging in a custom fetch implementation.
+ * 
+ * @example
+ * ```typescript
+ * import { AmazonSpApiClient, FetchHttpTransport } from './amazon-sp-api-client.js';
+ * 
+ * const client = new AmazonSpApiClient({
+ *   baseUrl: 'https://sellingpartnerapi-na.amazon.com',
+ *   transport: new FetchHttpTransport()
+ * });
+ * ```
+ */
+export class FetchHttpTransport implements HttpTransport {
+  /**
+   * Fetch implementation used to send requests
+   */
+  private readonly fetchFn: typeof fetch;
+
+  /**
+   * Extra options merged into every request
+   */
+  private readonly init: RequestInit;
+
+  /**
+   * Creates a new Fetch API transport
+   * 
+   * @param options - Optional fetch implementation and request options
+   */
+  constructor(options: FetchHttpTransportOptions = {}) {
+    this.fetchFn = options.fetch || globalThis.fetch;
+    this.init = options.init || {};
+  }
+
+  /**
+   * Sends a request with fetch
+   * 
+   * @param request - The request to send
+   * @returns Promise resolving to the response, whatever its status code
+   * @throws {HttpTransportError} When no response is received or the request times out
+   */
+  public async request<T = unknown>(request: HttpRequest): Promise<HttpResponse<T>> {
+    if (typeof this.fetchFn !== 'function') {
+      throw new HttpTransportError('setup', 'fetch is not available in this runtime');
+    }
+
+    const timeoutSignal = AbortSignal.timeout(request.timeout);
+    const signal = request.signal ? AbortSignal.any([request.signal, timeoutSignal]) : timeoutSignal;
+
+    try {
+      const response = await this.fetchFn(request.url, {
+        ...this.init,
+        method: request.method,
+        headers: { ...(this.init.headers as Record<string, string> | undefined), ...request.headers },
+        ...(request.body !== undefined ? { body: request.body } : {}),
+        signal,
+      });
+
+      return {
+        status: response.status,
+        headers: normalizeHeaders(response.headers as unknown as Iterable<[string, string]>),
+        data: parseResponseBody(await response.text()) as T,
+      };
+    } catch (error) {
+      if (request.signal?.aborted) {
+        throw request.signal.reason;
+      }
+      if (timeoutSignal.aborted) {
+        throw new HttpTransportError('network', `timeout of ${request.timeout}ms exceeded`, error);
+      }
+      if (error instanceof TypeError) {
+        // fetch rejects with a TypeError for network failures
+        throw new HttpTransportError('network', error.message, error);
+      }
+      throw error;
+    }
+  }
+}
@@ -8,7 +8,331 @@
  */
 
 import Joi from 'joi';
-import type { SearchListingsItemsQueryParams, SpApiClientConfig } from './types.js';
+import type {
+  BulkIdentifierLookupParams,
+  DeleteListingsItemParams,
+  GetDefinitionsProductTypeParams,
+  GetListingsItemParams,
+  MarketplaceValidationContext,
+  MultiMarketplaceSearchParams,
+  PatchListingsItemParams,
+  PutListingsItemParams,
+  SearchDefinitionsProductTypesParams,
+  SearchListingsItemsQueryParams,
+  SpApiClientConfig
+} from './types.js';
+import { getMarketplace } from './marketplaces.js';
+import { createSpApiValidationError } from './errors.js';
+import { getIdentifierFormatError, normalizeIdentifier } from './identifiers.js';
+
+/**
+ * Checks that a marketplace belongs to the region in the validation context
+ * 
+ * @remarks
+ * Reads `region` and `marketplaceRegionCheck` from the Joi validation context
+ * (see {@link MarketplaceValidationContext}). Unknown marketplaces and unknown
+ * regions are not checked.
+ */
+const checkMarketplaceRegion: Joi.CustomValidator<string> = (value, helpers) => {
+  const context = (helpers.prefs.context || {}) as MarketplaceValidationContext;
+  const mode = context.marketplaceRegionCheck || 'error';
+  const marketplace = getMarketplace(value);
+
+  if (mode === 'off' || !context.region || !marketplace || marketplace.region === context.region) {
+    return value;
+  }
+
+  const local = { marketplace: `${value} (${marketplace.name})`, expected: marketplace.region, region: context.region };
+  if (mode === 'warn') {
+    helpers.warn('marketplace.region', local);
+    return value;
+  }
+  return helpers.error('marketplace.region', local);
+};
+
+/**
+ * Checks an identifier's format against the sibling `identifiersType` and normalizes it
+ * 
+ * @remarks
+ * Identifiers are only checked when `identifiersType` is set; a missing type is
+ * reported by the object-level rule instead.
+ */
+const checkIdentifierFormat: Joi.CustomValidator<string> = (value, helpers) => {
+  const params = helpers.state.ancestors[1] as Partial<SearchListingsItemsQueryParams> | undefined;
+  const type = params?.identifiersType;
+  if (!type) {
+    return value;
+  }
+
+  const reason = getIdentifierFormatError(type, value);
+  if (reason) {
+    return helpers.error('identifier.format', { type, reason });
+  }
+  return normalizeIdentifier(type, value);
+};
+
+/**
+ * Reports a failed object-level rule against one of the object's fields
+ * 
+ * @internal
+ */
+function fieldError(
+  helpers: Joi.CustomHelpers,
+  params: Record<string, unknown>,
+  field: string,
+  code: string,
+  local: Record<string, unknown> = {}
+): Joi.ErrorReport {
+  return helpers.error(code, { ...local, value: params[field] }, { ...helpers.state, path: [...(helpers.state.path || []), field] });
+}
+
+/**
+ * Creates a rule that rejects a date range whose start is later than its end
+ * 
+ * @param afterField - Name of the field holding the start of the range
+ * @param beforeField - Name of the field holding the end of the range
+ */
+function dateRangeOrder(afterField: string, beforeField: string): Joi.CustomValidator<Record<string, unknown>> {
+  return (value, helpers) => {
+    const after = Date.parse(value[afterField] as string);
+    const before = Date.parse(value[beforeField] as string);
+    if (!Number.isNaN(after) && !Number.isNaN(before) && after > before) {
+      return fieldError(helpers, value, beforeField, 'date.rangeOrder', { after: afterField, before: beforeField });
+    }
+    return value;
+  };
+}
+
+/**
+ * Creates a rule that rejects a start date in the future, which can never match any listing
+ * 
+ * @param field - Name of the field holding the start date
+ */
+function startDateNotInFuture(field: string): Joi.CustomValidator<Record<string, unknown>> {
+  return (value, helpers) => {
+    const date = Date.parse(value[field] as string);
+    if (!Number.isNaN(date) && date > Date.now()) {
+      return fieldError(helpers, value, field, 'date.future', { field });
+    }
+    return value;
+  };
+}
+
+/**
+ * Rejects a lastUpdatedBefore earlier than createdAfter: a listing cannot be updated before it exists
+ */
+const updatedNotBeforeCreated: Joi.CustomValidator<Record<string, unknown>> = (value, helpers) => {
+  const createdAfter = Date.parse(value['createdAfter'] as string);
+  const lastUpdatedBefore = Date.parse(value['lastUpdatedBefore'] as string);
+  if (!Number.isNaN(createdAfter) && !Number.isNaN(lastUpdatedBefore) && lastUpdatedBefore < createdAfter) {
+    return fieldError(helpers, value, 'lastUpdatedBefore', 'date.neverMatches');
+  }
+  return value;
+};
+
+/**
+ * Requires identifiersType when identifiers are provided
+ */
+const identifiersTypeRequired: Joi.CustomValidator<Record<string, unknown>> = (value, helpers) => {
+  const identifiers = value['identifiers'];
+  if (Array.isArray(identifiers) && identifiers.length > 0 && !value['identifiersType']) {
+    return fieldError(helpers, value, 'identifiersType', 'custom.identifiersTypeRequired');
+  }
+  return value;
+};
+
+/**
+ * Rejects more than one of identifiers, variationParentSku and packageHierarchySku,
+ * reported against the second one given
+ */
+const exclusiveSearchParams: Joi.CustomValidator<Record<string, unknown>> = (value, helpers) => {
+  const identifiers = value['identifiers'];
+  const exclusiveParams = [
+    { name: 'identifiers', hasValue: Array.isArray(identifiers) && identifiers.length > 0 },
+    { name: 'variationParentSku', hasValue: !!value['variationParentSku'] },
+    { name: 'packageHierarchySku', hasValue: !!value['packageHierarchySku'] }
+  ].filter(p => p.hasValue);
+
+  if (exclusiveParams.length > 1) {
+    const paramNames = exclusiveParams.map(p => p.name).join(', ');
+    return fieldError(helpers, value, exclusiveParams[1]!.name, 'custom.mutuallyExclusive', { params: paramNames });
+  }
+  return value;
+};
+
+/**
+ * Messages of the cross-field rules of the search parameters, by error code
+ */
+const SEARCH_CROSS_FIELD_MESSAGES: Readonly<Record<string, string>> = {
+  'date.rangeOrder': '{{#after}} must not be later than {{#before}}',
+  'date.future': '{{#field}} must not be in the future',
+  'date.neverMatches': 'lastUpdatedBefore must not be earlier than createdAfter: a listing cannot be updated before it is created',
+  'custom.identifiersTypeRequired': 'identifiersType is required when identifiers are provided',
+  'custom.mutuallyExclusive': 'Cannot use multiple exclusive parameters: {{#params}}. Use only one of: identifiers, variationParentSku, or packageHierarchySku'
+};
+
+/**
+ * Adds the cross-field rules of the search parameters to an object schema
+ * 
+ * @remarks
+ * Each rule is separate and reports against one field, so a call reports every
+ * rule that fails rather than the first.
+ * 
+ * @internal
+ */
+function withSearchCrossFieldRules(schema: Joi.ObjectSchema): Joi.ObjectSchema {
+  return schema
+    .custom(identifiersTypeRequired)
+    .custom(exclusiveSearchParams)
+    .custom(dateRangeOrder('createdAfter', 'createdBefore'))
+    .custom(dateRangeOrder('lastUpdatedAfter', 'lastUpdatedBefore'))
+    .custom(startDateNotInFuture('createdAfter'))
+    .custom(startDateNotInFuture('lastUpdatedAfter'))
+    .custom(updatedNotBeforeCreated)
+    .messages(SEARCH_CROSS_FIELD_MESSAGES);
+}
+
+/**
+ * The cross-field rules of the search parameters on their own, for fields that passed their key rules
+ * 
+ * @internal
+ */
+const searchCrossFieldSchema = withSearchCrossFieldRules(Joi.object().unknown(true));
+
+/**
+ * Validates search parameters against a schema, including the cross-field rules when some keys fail
+ * 
+ * @remarks
+ * Joi skips object-level rules as soon as any key fails. When that happens the
+ * cross-field rules are run again on the keys that passed, and their failures
+ * are added to the error, so one call reports every problem.
+ * 
+ * @internal
+ */
+function validateSearchSchema<T>(schema: Joi.ObjectSchema<T>, params: T, context?: MarketplaceValidationContext) {
+  const options: Joi.ValidationOptions = context ? { abortEarly: false, context } : { abortEarly: false };
+  const result = schema.validate(params, options);
+  // The cross-field rules have run when they are the only failures
+  if (!result.error || result.error.details.every(detail => detail.type in SEARCH_CROSS_FIELD_MESSAGES)
+    || typeof params !== 'object' || params === null) {
+    return result;
+  }
+
+  const failedKeys = new Set(result.error.details.map(detail => detail.path[0]));
+  const validKeys = Object.fromEntries(Object.entries(params).filter(([key]) => !failedKeys.has(key)));
+  const crossField = searchCrossFieldSchema.validate(validKeys, options).error;
+  if (!crossField) {
+    return result;
+  }
+
+  const details = [...result.error.details, ...crossField.details];
+  return { ...result, error: new Joi.ValidationError(details.map(d => d.message).join('. '), details, params) };
+}
+
+/**
+ * Shared schema for the required sellerId parameter
+ */
+const sellerIdSchema = Joi.string()
+  .trim()
+  .min(1)
+  .required()
+  .messages({
+    'string.empty': 'sellerId is required and cannot be empty',
+    'any.required': 'sellerId is required'
+  });
+
+/**
+ * Shared schema for the required marketplaceIds parameter
+ */
+const marketplaceIdsSchema = Joi.array()
+  .items(Joi.string().trim().min(1).custom(checkMarketplaceRegion))
+  .min(1)
+  .max(1)
+  .required()
+  .messages({
+    'array.min': 'marketplaceIds must contain at least one marketplace ID',
+    'array.max': 'marketplaceIds can contain at most 1 marketplace ID',
+    'any.required': 'marketplaceIds is required',
+    'marketplace.region': 'marketplace {{#marketplace}} belongs to the {{#expected}} region but the client uses the {{#region}} endpoint'
+  });
+
+/**
+ * Shared schema for the includedData parameter of read operations
+ */
+const includedDataSchema = Joi.array()
+  .items(Joi.string().valid(
+    'summaries', 'attributes', 'issues', 'offers',
+    'fulfillmentAvailability', 'procurement', 'relationships', 'productTypes'
+  ))
+  .optional()
+  .messages({
+    'any.only': 'includedData must contain only valid values: summaries, attributes, issues, offers, fulfillmentAvailability, procurement, relationships, productTypes'
+  });
+
+/**
+ * Shared schema for the sku path parameter of single-item operations
+ */
+const skuSchema = Joi.string()
+  .trim()
+  .min(1)
+  .required()
+  .messages({
+    'string.empty': 'sku is required and cannot be empty',
+    'any.required': 'sku is required'
+  });
+
+/**
+ * Shared schema for the includedData parameter of submission operations
+ */
+const submissionIncludedDataSchema = Joi.array()
+  .items(Joi.string().valid('issues', 'identifiers'))
+  .optional()
+  .messages({
+    'any.only': 'includedData must contain only valid values: issues, identifiers'
+  });
+
+/**
+ * Shared schema for the mode parameter of submission operations
+ */
+const submissionModeSchema = Joi.string()
+  .valid('VALIDATION_PREVIEW')
+  .optional()
+  .messages({
+    'any.only': 'mode must be VALIDATION_PREVIEW'
+  });
+
+/**
+ * Shared schema for the productType field of submission bodies
+ */
+const productTypeSchema = Joi.string()
+  .trim()
+  .min(1)
+  .required()
+  .messages({
+    'string.empty': 'body.productType is required and cannot be empty',
+    'any.required': 'body.productType is required'
+  });
+
+/**
+ * Shared schema for durations given as milliseconds, a unit string or a unit object
+ */
+const durationSchema = Joi.alternatives()
+  .try(
+    Joi.number().min(0),
+    Joi.string().pattern(/^\d+(?:\.\d+)?[smhdw]$/).messages({
+      'string.pattern.base': '{{#label}} must be a number followed by s, m, h, d or w'
+    }),
+    Joi.object({
+      weeks: Joi.number().min(0),
+      days: Joi.number().min(0),
+      hours: Joi.number().min(0),
+      minutes: Joi.number().min(0),
+      seconds: Joi.number().min(0)
+    })
+  )
+  .messages({
+    'alternatives.match': '{{#label}} must be milliseconds, a string such as 90s or 5m, or a unit object'
+  });
 
 /**
  * Joi validation schema for SearchListingsItemsQueryParams
@@ -30,53 +354,30 @@ import type { SearchListingsItemsQueryParams, SpApiClientConfig } from './types.
  * 
  * const { error, value } = validateSearchParams(params);
  * if (error) {
- *   throw new Error(`Validation failed: ${error.details.map(d => d.message).join(', ')}`);
+ *   throw createSpApiValidationError('request', error);
  * }
  * ```
  */
-export const searchListingsItemsQueryParamsSchema = Joi.object({
+export const searchListingsItemsQueryParamsSchema = withSearchCrossFieldRules(Joi.object({
   // Required fields
-  sellerId: Joi.string()
-    .trim()
-    .min(1)
-    .required()
-    .messages({
-      'string.empty': 'sellerId is required and cannot be empty',
-      'any.required': 'sellerId is required'
-    }),
+  sellerId: sellerIdSchema,
 
-  marketplaceIds: Joi.array()
-    .items(Joi.string().trim().min(1))
-    .min(1)
-    .max(1)
-    .required()
-    .messages({
-      'array.min': 'marketplaceIds must contain at least one marketplace ID',
-      'array.max': 'marketplaceIds can contain at most 1 marketplace ID',
-      'any.required': 'marketplaceIds is required'
-    }),
+  marketplaceIds: marketplaceIdsSchema,
 
   // Optional fields
   issueLocale: Joi.string()
     .trim()
     .optional(),
 
-  includedData: Joi.array()
-    .items(Joi.string().valid(
-      'summaries', 'attributes', 'issues', 'offers',
-      'fulfillmentAvailability', 'procurement', 'relationships', 'productTypes'
-    ))
-    .optional()
-    .messages({
-      'any.only': 'includedData must contain only valid values: summaries, attributes, issues, offers, fulfillmentAvailability, procurement, relationships, productTypes'
-    }),
+  includedData: includedDataSchema,
 
   identifiers: Joi.array()
-    .items(Joi.string().trim().min(1))
+    .items(Joi.string().trim().min(1).custom(checkIdentifierFormat))
     .max(20)
     .optional()
     .messages({
-      'array.max': 'identifiers can contain at most 20 items'
+      'array.max': 'identifiers can contain at most 20 items',
+      'identifier.format': 'identifier {{#value}} is not a valid {{#type}} ({{#reason}})'
     }),
 
   identifiersType: Joi.string()
@@ -172,31 +473,245 @@ export const searchListingsItemsQueryParamsSchema = Joi.object({
   pageToken: Joi.string()
     .trim()
     .optional()
-})
-// Custom validation for mutual exclusivity and conditional requirements
-.custom((value, helpers) => {
-  // Check if identifiersType is required when identifiers are provided
-  if (value.identifiers && value.identifiers.length > 0 && !value.identifiersType) {
-    return helpers.error('custom.identifiersTypeRequired');
-  }
+}));
 
-  // Check mutual exclusivity of identifiers, variationParentSku, and packageHierarchySku
-  const exclusiveParams = [
-    { name: 'identifiers', hasValue: value.identifiers && value.identifiers.length > 0 },
-    { name: 'variationParentSku', hasValue: !!value.variationParentSku },
-    { name: 'packageHierarchySku', hasValue: !!value.packageHierarchySku }
-  ].filter(p => p.hasValue);
+/**
+ * Joi validation schema for MultiMarketplaceSearchParams
+ * 
+ * @remarks
+ * Extends the search schema: `marketplaceIds` may list any number of distinct
+ * marketplaces, and `pageToken` is rejected because each marketplace pages on its own.
+ */
+export const multiMarketplaceSearchParamsSchema = searchListingsItemsQueryParamsSchema.keys({
+  marketplaceIds: Joi.array()
+    .items(Joi.string().trim().min(1).custom(checkMarketplaceRegion))
+    .min(1)
+    .unique()
+    .required()
+    .messages({
+      'array.min': 'marketplaceIds must contain at least one marketplace ID',
+      'array.unique': 'marketplaceIds must not contain duplicates',
+      'any.required': 'marketplaceIds is required',
+      'marketplace.region': 'marketplace {{#marketplace}} belongs to the {{#expected}} region but the client uses the {{#region}} endpoint'
+    }),
 
-  if (exclusiveParams.length > 1) {
-    const paramNames = exclusiveParams.map(p => p.name).join(', ');
-    return helpers.error('custom.mutuallyExclusive', { params: paramNames });
-  }
+  pageToken: Joi.forbidden()
+    .messages({
+      'any.unknown': 'pageToken cannot be used when searching across marketplaces'
+    })
+});
 
-  return value;
+/**
+ * Joi validation schema for BulkIdentifierLookupParams
+ * 
+ * @remarks
+ * Extends the search schema: `identifiers` and `identifiersType` are required,
+ * `identifiers` has no upper limit, and the parameters that conflict with an
+ * identifier lookup or with paging are rejected.
+ */
+export const bulkIdentifierLookupParamsSchema = searchListingsItemsQueryParamsSchema.keys({
+  identifiers: Joi.array()
+    .items(Joi.string().trim().min(1).custom(checkIdentifierFormat))
+    .min(1)
+    .required()
+    .messages({
+      'array.min': 'identifiers must contain at least one identifier',
+      'any.required': 'identifiers is required',
+      'identifier.format': 'identifier {{#value}} is not a valid {{#type}} ({{#reason}})'
+    }),
+
+  identifiersType: Joi.string()
+    .valid('SKU', 'ASIN', 'EAN', 'FNSKU', 'GTIN', 'ISBN', 'JAN', 'MINSAN', 'UPC')
+    .required()
+    .messages({
+      'any.only': 'identifiersType must be one of: SKU, ASIN, EAN, FNSKU, GTIN, ISBN, JAN, MINSAN, UPC',
+      'any.required': 'identifiersType is required'
+    }),
+
+  variationParentSku: Joi.forbidden()
+    .messages({
+      'any.unknown': 'variationParentSku cannot be used in an identifier lookup'
+    }),
+
+  packageHierarchySku: Joi.forbidden()
+    .messages({
+      'any.unknown': 'packageHierarchySku cannot be used in an identifier lookup'
+    }),
+
+  pageToken: Joi.forbidden()
+    .messages({
+      'any.unknown': 'pageToken cannot be used in an identifier lookup'
+    })
+});
+
+/**
+ * Joi validation schema for GetListingsItemParams
+ * 
+ * @example
+ * ```typescript
+ * const { error } = getListingsItemParamsSchema.validate({
+ *   sellerId: 'A1B2C3D4E5F6G7',
+ *   sku: 'MY-SKU-001',
+ *   marketplaceIds: ['ATVPDKIKX0DER']
+ * });
+ * ```
+ */
+export const getListingsItemParamsSchema = Joi.object({
+  sellerId: sellerIdSchema,
+  sku: skuSchema,
+  marketplaceIds: marketplaceIdsSchema,
+  issueLocale: Joi.string().trim().optional(),
+  includedData: includedDataSchema
+});
+
+/**
+ * Joi validation schema for PutListingsItemParams
+ * 
+ * @remarks
+ * Only the envelope of the submission is validated here; attribute contents
+ * are checked by Amazon against the product type definition.
+ */
+export const putListingsItemParamsSchema = Joi.object({
+  sellerId: sellerIdSchema,
+  sku: skuSchema,
+  marketplaceIds: marketplaceIdsSchema,
+  issueLocale: Joi.string().trim().optional(),
+  includedData: submissionIncludedDataSchema,
+  mode: submissionModeSchema,
+  body: Joi.object({
+    productType: productTypeSchema,
+    requirements: Joi.string()
+      .valid('LISTING', 'LISTING_PRODUCT_ONLY', 'LISTING_OFFER_ONLY')
+      .optional()
+      .messages({
+        'any.only': 'body.requirements must be one of: LISTING, LISTING_PRODUCT_ONLY, LISTING_OFFER_ONLY'
+      }),
+    attributes: Joi.object()
+      .required()
+      .messages({
+        'any.required': 'body.attributes is required',
+        'object.base': 'body.attributes must be an object'
+      })
+  })
+    .required()
+    .messages({
+      'any.required': 'body is required'
+    })
+});
+
+/**
+ * Joi validation schema for PatchListingsItemParams
+ * 
+ * @remarks
+ * Every patch must target a path and, except for `delete`, carry an array value.
+ */
+export const patchListingsItemParamsSchema = Joi.object({
+  sellerId: sellerIdSchema,
+  sku: skuSchema,
+  marketplaceIds: marketplaceIdsSchema,
+  issueLocale: Joi.string().trim().optional(),
+  includedData: submissionIncludedDataSchema,
+  mode: submissionModeSchema,
+  body: Joi.object({
+    productType: productTypeSchema,
+    patches: Joi.array()
+      .items(Joi.object({
+        op: Joi.string()
+          .valid('add', 'replace', 'merge', 'delete')
+          .required()
+          .messages({
+            'any.only': 'patch op must be one of: add, replace, merge, delete',
+            'any.required': 'patch op is required'
+          }),
+        path: Joi.string()
+          .pattern(/^\//)
+          .required()
+          .messages({
+            'string.pattern.base': 'patch path must be a JSON Pointer starting with "/"',
+            'any.required': 'patch path is required'
+          }),
+        value: Joi.array()
+          .when('op', { is: 'delete', then: Joi.optional(), otherwise: Joi.required() })
+          .messages({
+            'any.required': 'patch value is required for add, replace and merge operations',
+            'array.base': 'patch value must be an array'
+          })
+      }))
+      .min(1)
+      .required()
+      .messages({
+        'array.min': 'body.patches must contain at least one patch',
+        'any.required': 'body.patches is required'
+      })
+  })
+    .required()
+    .messages({
+      'any.required': 'body is required'
+    })
+});
+
+/**
+ * Joi validation schema for DeleteListingsItemParams
+ */
+export const deleteListingsItemParamsSchema = Joi.object({
+  sellerId: sellerIdSchema,
+  sku: skuSchema,
+  marketplaceIds: marketplaceIdsSchema,
+  issueLocale: Joi.string().trim().optional()
+});
+
+/**
+ * Joi validation schema for SearchDefinitionsProductTypesParams
+ * 
+ * @remarks
+ * Product types are searched either by keywords or by item name, not both.
+ */
+export const searchDefinitionsProductTypesParamsSchema = Joi.object({
+  marketplaceIds: marketplaceIdsSchema,
+  keywords: Joi.array()
+    .items(Joi.string().trim().min(1))
+    .min(1)
+    .optional()
+    .messages({
+      'array.min': 'keywords must contain at least one keyword'
+    }),
+  itemName: Joi.string().trim().min(1).optional(),
+  locale: Joi.string().trim().optional(),
+  searchLocale: Joi.string().trim().optional()
 })
-.messages({
-  'custom.identifiersTypeRequired': 'identifiersType is required when identifiers are provided',
-  'custom.mutuallyExclusive': 'Cannot use multiple exclusive parameters: {{#params}}. Use only one of: identifiers, variationParentSku, or packageHierarchySku'
+  .oxor('keywords', 'itemName')
+  .messages({
+    'object.oxor': 'keywords and itemName cannot be used together'
+  });
+
+/**
+ * Joi validation schema for GetDefinitionsProductTypeParams
+ */
+export const getDefinitionsProductTypeParamsSchema = Joi.object({
+  productType: Joi.string()
+    .trim()
+    .min(1)
+    .required()
+    .messages({
+      'string.empty': 'productType is required and cannot be empty',
+      'any.required': 'productType is required'
+    }),
+  marketplaceIds: marketplaceIdsSchema,
+  sellerId: Joi.string().trim().min(1).optional(),
+  productTypeVersion: Joi.string().trim().min(1).optional(),
+  requirements: Joi.string()
+    .valid('LISTING', 'LISTING_PRODUCT_ONLY', 'LISTING_OFFER_ONLY')
+    .optional()
+    .messages({
+      'any.only': 'requirements must be one of: LISTING, LISTING_PRODUCT_ONLY, LISTING_OFFER_ONLY'
+    }),
+  requirementsEnforced: Joi.string()
+    .valid('ENFORCED', 'NOT_ENFORCED')
+    .optional()
+    .messages({
+      'any.only': 'requirementsEnforced must be one of: ENFORCED, NOT_ENFORCED'
+    }),
+  locale: Joi.string().trim().optional()
 });
 
 /**
@@ -204,7 +719,7 @@ export const searchListingsItemsQueryParamsSchema = Joi.object({
  * 
  * @remarks
  * This schema validates the configuration options for the SP-API client,
- * ensuring proper URL format, timeout ranges, and header structure.
+ * ensuring proper URL format, timeout ranges, header structure, and credentials.
  * 
  * @example
  * ```typescript
@@ -246,14 +761,164 @@ export const spApiClientConfigSchema = Joi.object({
     .optional()
     .messages({
       'object.pattern.match': 'headers must be an object with string keys and string values'
+    }),
+
+  lwa: Joi.object({
+    clientId: Joi.string().trim().min(1).required(),
+    clientSecret: Joi.string().trim().min(1).required(),
+    refreshToken: Joi.string().trim().min(1).required(),
+    tokenEndpoint: Joi.string().uri({ scheme: ['http', 'https'] }).optional(),
+    refreshMarginMs: Joi.number().integer().min(0).optional(),
+    timeout: Joi.number().integer().min(1000).max(300000).optional()
+  })
+    .optional()
+    .messages({
+      'any.required': '{{#label}} is required when lwa credentials are provided',
+      'string.empty': '{{#label}} cannot be empty',
+      'string.uri': 'lwa.tokenEndpoint must be a valid HTTP or HTTPS URL'
+    }),
+
+  accessTokenProvider: Joi.object()
+    .custom((value, helpers) => {
+      if (typeof value.getAccessToken !== 'function') {
+        return helpers.error('custom.tokenProvider');
+      }
+      return value;
+    })
+    .optional()
+    .messages({
+      'custom.tokenProvider': 'accessTokenProvider must implement getAccessToken()'
+    }),
+
+  retry: Joi.object({
+    maxAttempts: Joi.number().integer().min(1).max(10).optional(),
+    baseDelayMs: Joi.number().integer().min(0).optional(),
+    maxDelayMs: Joi.number().integer().min(0).optional(),
+    jitter: Joi.string().valid('full', 'equal', 'none').optional(),
+    respectRetryAfter: Joi.boolean().optional(),
+    shouldRetry: Joi.function().optional()
+  })
+    .optional()
+    .messages({
+      'number.min': '{{#label}} must be at least {{#limit}}',
+      'number.max': '{{#label}} must be at most {{#limit}}',
+      'any.only': 'retry.jitter must be one of: full, equal, none'
+    }),
+
+  rateLimiter: Joi.alternatives()
+    .try(
+      Joi.boolean(),
+      Joi.object().custom((value, helpers) => {
+        if (typeof value.acquire !== 'function') {
+          return helpers.error('custom.rateLimiter');
+        }
+        return value;
+      })
+    )
+    .optional()
+    .messages({
+      'alternatives.match': 'rateLimiter must be a boolean or implement acquire()',
+      'custom.rateLimiter': 'rateLimiter must implement acquire()'
+    }),
+
+  transport: Joi.object()
+    .custom((value, helpers) => {
+      if (typeof value.request !== 'function') {
+        return helpers.error('custom.transport');
+      }
+      return value;
     })
+    .optional()
+    .messages({
+      'custom.transport': 'transport must implement request()'
+    }),
+
+  region: Joi.string()
+    .valid('NA', 'EU', 'FE')
+    .optional()
+    .messages({
+      'any.only': 'region must be one of NA, EU, FE'
+    }),
+
+  marketplaceRegionCheck: Joi.string()
+    .valid('error', 'warn', 'off')
+    .optional()
+    .messages({
+      'any.only': 'marketplaceRegionCheck must be one of error, warn, off'
+    }),
+
+  onWarning: Joi.function().optional(),
+
+  responseValidation: Joi.string()
+    .valid('strict', 'warn', 'off')
+    .optional()
+    .messages({
+      'any.only': 'responseValidation must be one of strict, warn, off'
+    }),
+
+  onResponseValidationError: Joi.function().optional(),
+
+  cache: Joi.object({
+    store: Joi.object()
+      .custom((value, helpers) => {
+        if (typeof value.get !== 'function' || typeof value.set !== 'function' || typeof value.delete !== 'function') {
+          return helpers.error('custom.cacheStore');
+        }
+        return value;
+      })
+      .optional(),
+    ttl: durationSchema.optional(),
+    includedDataTtl: Joi.object()
+      .pattern(
+        Joi.string().valid(
+          'summaries', 'attributes', 'issues', 'offers',
+          'fulfillmentAvailability', 'procurement', 'relationships', 'productTypes'
+        ),
+        durationSchema
+      )
+      .optional(),
+    maxEntries: Joi.number().integer().min(1).optional()
+  })
+    .allow(true, false)
+    .optional()
+    .messages({
+      'custom.cacheStore': 'cache.store must implement get(), set() and delete()',
+      'object.base': 'cache must be a boolean or cache options'
+    }),
+
+  middleware: Joi.array()
+    .items(Joi.function().maxArity(2))
+    .optional()
+    .messages({
+      'array.includes': 'middleware must be an array of functions taking (request, next)'
+    }),
+
+  sigV4: Joi.object({
+    accessKeyId: Joi.string().trim().min(1).required(),
+    secretAccessKey: Joi.string().trim().min(1).required(),
+    sessionToken: Joi.string().trim().min(1).optional(),
+    region: Joi.string().pattern(/^[a-z]{2}(-[a-z]+)+-\d$/).required(),
+    service: Joi.string().trim().min(1).optional(),
+    uriEscapePath: Joi.boolean().optional()
+  })
+    .optional()
+    .messages({
+      'any.required': '{{#label}} is required when sigV4 credentials are provided',
+      'string.empty': '{{#label}} cannot be empty',
+      'string.pattern.base': 'sigV4.region must be an AWS region such as us-east-1'
+    })
+})
+.oxor('lwa', 'accessTokenProvider')
+.messages({
+  'object.oxor': 'Use only one of lwa or accessTokenProvider'
 });
 
 /**
  * Validates SearchListingsItemsQueryParams using Joi schema
  * 
  * @param params - Query parameters to validate
- * @returns Joi validation result with error and value
+ * @param context - Optional region context for the marketplace check
+ * @returns Joi validation result with error, value and any warnings
  * 
  * @example
  * ```typescript
@@ -269,8 +934,8 @@ export const spApiClientConfigSchema = Joi.object({
  * }
  * ```
  */
-export function validateSearchParams(params: SearchListingsItemsQueryParams) {
-  return searchListingsItemsQueryParamsSchema.validate(params);
+export function validateSearchParams(params: SearchListingsItemsQueryParams, context?: MarketplaceValidationContext) {
+  return validateSearchSchema(searchListingsItemsQueryParamsSchema, params, context);
 }
 
 /**
@@ -294,14 +959,104 @@ export function validateSearchParams(params: SearchListingsItemsQueryParams) {
  * ```
  */
 export function validateClientConfig(config: SpApiClientConfig) {
-  return spApiClientConfigSchema.validate(config);
+  return spApiClientConfigSchema.validate(config, { abortEarly: false });
+}
+
+/**
+ * Validates MultiMarketplaceSearchParams using Joi schema
+ * 
+ * @param params - Parameters to validate
+ * @param context - Optional region context for the marketplace check
+ * @returns Joi validation result with error, value and any warnings
+ */
+export function validateMultiMarketplaceSearchParams(params: MultiMarketplaceSearchParams, context?: MarketplaceValidationContext) {
+  return validateSearchSchema(multiMarketplaceSearchParamsSchema, params, context);
+}
+
+/**
+ * Validates BulkIdentifierLookupParams using Joi schema
+ * 
+ * @param params - Parameters to validate
+ * @param context - Optional region context for the marketplace check
+ * @returns Joi validation result with error, value (with normalized identifiers) and any warnings
+ */
+export function validateBulkIdentifierLookupParams(params: BulkIdentifierLookupParams, context?: MarketplaceValidationContext) {
+  return validateSearchSchema(bulkIdentifierLookupParamsSchema, params, context);
+}
+
+/**
+ * Validates GetListingsItemParams using Joi schema
+ * 
+ * @param params - Parameters to validate
+ * @param context - Optional region context for the marketplace check
+ * @returns Joi validation result with error, value and any warnings
+ */
+export function validateGetListingsItemParams(params: GetListingsItemParams, context?: MarketplaceValidationContext) {
+  return getListingsItemParamsSchema.validate(params, context ? { abortEarly: false, context } : { abortEarly: false });
+}
+
+/**
+ * Validates PutListingsItemParams using Joi schema
+ * 
+ * @param params - Parameters to validate
+ * @param context - Optional region context for the marketplace check
+ * @returns Joi validation result with error, value and any warnings
+ */
+export function validatePutListingsItemParams(params: PutListingsItemParams, context?: MarketplaceValidationContext) {
+  return putListingsItemParamsSchema.validate(params, context ? { abortEarly: false, context } : { abortEarly: false });
+}
+
+/**
+ * Validates PatchListingsItemParams using Joi schema
+ * 
+ * @param params - Parameters to validate
+ * @param context - Optional region context for the marketplace check
+ * @returns Joi validation result with error, value and any warnings
+ */
+export function validatePatchListingsItemParams(params: PatchListingsItemParams, context?: MarketplaceValidationContext) {
+  return patchListingsItemParamsSchema.validate(params, context ? { abortEarly: false, context } : { abortEarly: false });
+}
+
+/**
+ * Validates DeleteListingsItemParams using Joi schema
+ * 
+ * @param params - Parameters to validate
+ * @param context - Optional region context for the marketplace check
+ * @returns Joi validation result with error, value and any warnings
+ */
+export function validateDeleteListingsItemParams(params: DeleteListingsItemParams, context?: MarketplaceValidationContext) {
+  return deleteListingsItemParamsSchema.validate(params, context ? { abortEarly: false, context } : { abortEarly: false });
+}
+
+/**
+ * Validates SearchDefinitionsProductTypesParams using Joi schema
+ * 
+ * @param params - Parameters to validate
+ * @param context - Optional region context for the marketplace check
+ * @returns Joi validation result with error, value and any warnings
+ */
+export function validateSearchDefinitionsProductTypesParams(params: SearchDefinitionsProductTypesParams, context?: MarketplaceValidationContext) {
+  return searchDefinitionsProductTypesParamsSchema.validate(params, context ? { abortEarly: false, context } : { abortEarly: false });
+}
+
+/**
+ * Validates GetDefinitionsProductTypeParams using Joi schema
+ * 
+ * @param params - Parameters to validate
+ * @param context - Optional region context for the marketplace check
+ * @returns Joi validation result with error, value and any warnings
+ */
+export function validateGetDefinitionsProductTypeParams(params: GetDefinitionsProductTypeParams, context?: MarketplaceValidationContext) {
+  return getDefinitionsProductTypeParamsSchema.validate(params, context ? { abortEarly: false, context } : { abortEarly: false });
 }
 
 /**
  * Validates SearchListingsItemsQueryParams and throws an error if invalid
  * 
  * @param params - Query parameters to validate
- * @throws {Error} When validation fails with detailed error message
+ * @param context - Optional region context for the marketplace check
+ * @returns Warning messages, e.g. for a marketplace outside the client's region
+ * @throws {SpApiValidationError} When validation fails, with every failure in `details`
  * 
  * @example
  * ```typescript
@@ -316,18 +1071,147 @@ export function validateClientConfig(config: SpApiClientConfig) {
  * }
  * ```
  */
-export function validateSearchParamsOrThrow(params: SearchListingsItemsQueryParams): void {
-  const { error } = validateSearchParams(params);
+export function validateSearchParamsOrThrow(params: SearchListingsItemsQueryParams, context?: MarketplaceValidationContext): string[] {
+  const { error, warning } = validateSearchParams(params, context);
+  if (error) {
+    throw createSpApiValidationError('request', error);
+  }
+  return warning ? warning.details.map(d => d.message) : [];
+}
+
+/**
+ * Validates MultiMarketplaceSearchParams and throws an error if invalid
+ * 
+ * @param params - Parameters to validate
+ * @param context - Optional region context for the marketplace check
+ * @returns Warning messages, e.g. for a marketplace outside the client's region
+ * @throws {SpApiValidationError} When validation fails, with every failure in `details`
+ */
+export function validateMultiMarketplaceSearchParamsOrThrow(params: MultiMarketplaceSearchParams, context?: MarketplaceValidationContext): string[] {
+  const { error, warning } = validateMultiMarketplaceSearchParams(params, context);
+  if (error) {
+    throw createSpApiValidationError('request', error);
+  }
+  return warning ? warning.details.map(d => d.message) : [];
+}
+
+/**
+ * Validates BulkIdentifierLookupParams and throws an error if invalid
+ * 
+ * @param params - Parameters to validate
+ * @param context - Optional region context for the marketplace check
+ * @returns Warning messages, e.g. for a marketplace outside the client's region
+ * @throws {SpApiValidationError} When validation fails, with every failure in `details`
+ */
+export function validateBulkIdentifierLookupParamsOrThrow(params: BulkIdentifierLookupParams, context?: MarketplaceValidationContext): string[] {
+  const { error, warning } = validateBulkIdentifierLookupParams(params, context);
+  if (error) {
+    throw createSpApiValidationError('request', error);
+  }
+  return warning ? warning.details.map(d => d.message) : [];
+}
+
+/**
+ * Validates GetListingsItemParams and throws an error if invalid
+ * 
+ * @param params - Parameters to validate
+ * @param context - Optional region context for the marketplace check
+ * @returns Warning messages, e.g. for a marketplace outside the client's region
+ * @throws {SpApiValidationError} When validation fails, with every failure in `details`
+ */
+export function validateGetListingsItemParamsOrThrow(params: GetListingsItemParams, context?: MarketplaceValidationContext): string[] {
+  const { error, warning } = validateGetListingsItemParams(params, context);
+  if (error) {
+    throw createSpApiValidationError('request', error);
+  }
+  return warning ? warning.details.map(d => d.message) : [];
+}
+
+/**
+ * Validates PutListingsItemParams and throws an error if invalid
+ * 
+ * @param params - Parameters to validate
+ * @param context - Optional region context for the marketplace check
+ * @returns Warning messages, e.g. for a marketplace outside the client's region
+ * @throws {SpApiValidationError} When validation fails, with every failure in `details`
+ */
+export function validatePutListingsItemParamsOrThrow(params: PutListingsItemParams, context?: MarketplaceValidationContext): string[] {
+  const { error, warning } = validatePutListingsItemParams(params, context);
+  if (error) {
+    throw createSpApiValidationError('request', error);
+  }
+  return warning ? warning.details.map(d => d.message) : [];
+}
+
+/**
+ * Validates PatchListingsItemParams and throws an error if invalid
+ * 
+ * @param params - Parameters to validate
+ * @param context - Optional region context for the marketplace check
+ * @returns Warning messages, e.g. for a marketplace outside the client's region
+ * @throws {SpApiValidationError} When validation fails, with every failure in `details`
+ */
+export function validatePatchListingsItemParamsOrThrow(params: PatchListingsItemParams, context?: MarketplaceValidationContext): string[] {
+  const { error, warning } = validatePatchListingsItemParams(params, context);
+  if (error) {
+    throw createSpApiValidationError('request', error);
+  }
+  return warning ? warning.details.map(d => d.message) : [];
+}
+
+/**
+ * Validates DeleteListingsItemParams and throws an error if invalid
+ * 
+ * @param params - Parameters to validate
+ * @param context - Optional region context for the marketplace check
+ * @returns Warning messages, e.g. for a marketplace outside the client's region
+ * @throws {SpApiValidationError} When validation fails, with every failure in `details`
+ */
+export function validateDeleteListingsItemParamsOrThrow(params: DeleteListingsItemParams, context?: MarketplaceValidationContext): string[] {
+  const { error, warning } = validateDeleteListingsItemParams(params, context);
+  if (error) {
+    throw createSpApiValidationError('request', error);
+  }
+  return warning ? warning.details.map(d => d.message) : [];
+}
+
+/**
+ * Validates SearchDefinitionsProductTypesParams and throws an error if invalid
+ * 
+ * @param params - Parameters to validate
+ * @param context - Optional region context for the marketplace check
+ * @returns Warning messages, e.g. for a marketplace outside the client's region
+ * @throws {SpApiValidationError} When validation fails, with every failure in `details`
+ */
+export function validateSearchDefinitionsProductTypesParamsOrThrow(params: SearchDefinitionsProductTypesParams, context?: MarketplaceValidationContext): string[] {
+  const { error, warning } = validateSearchDefinitionsProductTypesParams(params, context);
+  if (error) {
+    throw createSpApiValidationError('request', error);
+  }
+  return warning ? warning.details.map(d => d.message) : [];
+}
+
+/**
+ * Validates GetDefinitionsProductTypeParams and throws an error if invalid
+ * 
+ * @param params - Parameters to validate
+ * @param context - Optional region context for the marketplace check
+ * @returns Warning messages, e.g. for a marketplace outside the client's region
+ * @throws {SpApiValidationError} When validation fails, with every failure in `details`
+ */
+export function validateGetDefinitionsProductTypeParamsOrThrow(params: GetDefinitionsProductTypeParams, context?: MarketplaceValidationContext): string[] {
+  const { error, warning } = validateGetDefinitionsProductTypeParams(params, context);
   if (error) {
-    throw new Error(`Validation failed: ${error.details.map(d => d.message).join(', ')}`);
+    throw createSpApiValidationError('request', error);
   }
+  return warning ? warning.details.map(d => d.message) : [];
 }
 
 /**
  * Validates SpApiClientConfig and throws an error if invalid
  * 
  * @param config - Client configuration to validate
- * @throws {Error} When validation fails with detailed error message
+ * @throws {SpApiValidationError} When validation fails, with every failure in `details`
  * 
  * @example
  * ```typescript
@@ -344,6 +1228,6 @@ export function validateSearchParamsOrThrow(params: SearchListingsItemsQueryPara
 export function validateClientConfigOrThrow(config: SpApiClientConfig): void {
   const { error } = validateClientConfig(config);
   if (error) {
-    throw new Error(`Invalid configuration: ${error.details.map(d => d.message).join(', ')}`);
+    throw createSpApiValidationError('config', error);
   }
 }
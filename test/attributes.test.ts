@@ -0,0 +1,51 @@
+import { getAttributePath, getOurPrice } from '../src/attributes.js';
+import type { ListingItem } from '../src/types.js';
+
+describe('getOurPrice', () => {
+  it('reads the first scheduled price', () => {
+    const item: ListingItem = {
+      sku: 'SKU-1',
+      attributes: { purchasable_offer: [{ currency: 'USD', our_price: [{ schedule: [{ value_with_tax: 19.99 }] }] }] }
+    };
+    expect(getOurPrice(item)).toEqual({ currencyCode: 'USD', amount: '19.99' });
+  });
+
+  it('returns undefined when the price has no schedule', () => {
+    const item = { sku: 'SKU-1', attributes: { purchasable_offer: [{ currency: 'USD', our_price: [{}] }] } } as unknown as ListingItem;
+    expect(getOurPrice(item)).toBeUndefined();
+  });
+});
+
+describe('getAttributePath', () => {
+  it('returns undefined when a segment is missing', () => {
+    const item: ListingItem = { sku: 'SKU-1', attributes: { item_weight: [{ value: 1.5 }] } };
+    expect(getAttributePath(item, 'item_weight[0].value')).toBe(1.5);
+    expect(getAttributePath(item, 'item_weight[1].value')).toBeUndefined();
+    expect(getAttributePath(item, 'item_weight.unit.name')).toBeUndefined();
+  });
+});
+
+describe('AttributePathValue', () => {
+  it('derives the value type from the path', () => {
+    const item: ListingItem = {
+      sku: 'SKU-1',
+      attributes: {
+        item_name: [{ value: 'Mug' }],
+        purchasable_offer: [{ currency: 'USD', our_price: [{ schedule: [{ value_with_tax: 19.99 }] }] }],
+        item_weight: [{ value: 1.5 }]
+      }
+    };
+
+    const price: number | undefined = getAttributePath(item, 'purchasable_offer.our_price[0].schedule[0].value_with_tax');
+    const name: string | undefined = getAttributePath(item, 'item_name[0].value');
+    const schedule: Array<{ value_with_tax: number }> | undefined = getAttributePath(item, 'purchasable_offer.our_price[0].schedule');
+    const weight = getAttributePath(item, 'item_weight.value');
+    expect([price, name, schedule?.length, weight]).toEqual([19.99, 'Mug', 1, 1.5]);
+
+    // @ts-expect-error other attributes are unknown until narrowed
+    const unchecked: number | undefined = weight;
+    // @ts-expect-error a field that is not declared is unknown
+    const currency: number | undefined = getAttributePath(item, 'purchasable_offer.our_price[0].currency');
+    expect([unchecked, currency]).toEqual([1.5, undefined]);
+  });
+});
@@ -0,0 +1,131 @@
+import { LwaTokenProvider } from '../src/auth.js';
+import { SpApiClientError } from '../src/errors.js';
+import { MockSpApiServer } from '../src/mock-server.js';
+import type { HttpRequest, HttpResponse, HttpTransport } from '../src/types.js';
+
+const credentials = {
+  clientId: 'amzn1.application-oa2-client.test',
+  clientSecret: 'secret',
+  refreshToken: 'Atzr|refresh'
+};
+
+/**
+ * Creates a token endpoint that issues `token-1`, `token-2`, ... and records each exchange
+ */
+function createTokenEndpoint(expiresIn = 3600) {
+  const requests: HttpRequest[] = [];
+  const transport: HttpTransport = {
+    async request<T>(request: HttpRequest): Promise<HttpResponse<T>> {
+      requests.push(request);
+      const data = { access_token: `token-${requests.length}`, expires_in: expiresIn, token_type: 'bearer' };
+      return { status: 200, headers: {}, data: data as T };
+    }
+  };
+  return { transport, requests };
+}
+
+describe('LwaTokenProvider', () => {
+  it('exchanges the refresh token and caches the access token', async () => {
+    const endpoint = createTokenEndpoint();
+    const provider = new LwaTokenProvider(credentials, endpoint.transport);
+
+    expect(await provider.getAccessToken()).toBe('token-1');
+    expect(await provider.getAccessToken()).toBe('token-1');
+    expect(endpoint.requests).toHaveLength(1);
+    expect(endpoint.requests[0]).toMatchObject({ method: 'POST', url: 'https://api.amazon.com/auth/o2/token' });
+    expect(Object.fromEntries(new URLSearchParams(String(endpoint.requests[0]?.body)))).toEqual({
+      grant_type: 'refresh_token',
+      refresh_token: 'Atzr|refresh',
+      client_id: 'amzn1.application-oa2-client.test',
+      client_secret: 'secret'
+    });
+  });
+
+  it('refreshes a token that expires within the refresh margin', async () => {
+    const endpoint = createTokenEndpoint(30);
+    const provider = new LwaTokenProvider(credentials, endpoint.transport);
+
+    expect(await provider.getAccessToken()).toBe('token-1');
+    expect(await provider.getAccessToken()).toBe('token-2');
+
+    const withoutMargin = new LwaTokenProvider({ ...credentials, refreshMarginMs: 0 }, createTokenEndpoint(30).transport);
+    expect(await withoutMargin.getAccessToken()).toBe(await withoutMargin.getAccessToken());
+  });
+
+  it('shares one exchange between concurrent callers', async () => {
+    const endpoint = createTokenEndpoint();
+    const provider = new LwaTokenProvider(credentials, endpoint.transport);
+
+    expect(await Promise.all([provider.getAccessToken(), provider.getAccessToken(), provider.getAccessToken()]))
+      .toEqual(['token-1', 'token-1', 'token-1']);
+    expect(endpoint.requests).toHaveLength(1);
+  });
+
+  it('only invalidates the token that was rejected', async () => {
+    const endpoint = createTokenEndpoint();
+    const provider = new LwaTokenProvider(credentials, endpoint.transport);
+
+    await provider.getAccessToken();
+    provider.invalidate('token-1');
+    expect(await provider.getAccessToken()).toBe('token-2');
+
+    // A request still holding the old token must not discard the refreshed one
+    provider.invalidate('token-1');
+    expect(await provider.getAccessToken()).toBe('token-2');
+
+    provider.invalidate();
+    expect(await provider.getAccessToken()).toBe('token-3');
+  });
+
+  it('reports LWA errors', async () => {
+    const transport: HttpTransport = {
+      async request<T>(): Promise<HttpResponse<T>> {
+        return { status: 400, headers: {}, data: { error: 'invalid_grant', error_description: 'The refresh token is invalid' } as T };
+      }
+    };
+
+    const error = await new LwaTokenProvider(credentials, transport).getAccessToken().catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(SpApiClientError);
+    expect((error as SpApiClientError).statusCode).toBe(400);
+    expect((error as SpApiClientError).errors[0]).toEqual({ code: 'invalid_grant', message: 'The refresh token is invalid' });
+  });
+});
+
+describe('access token retry', () => {
+  const sellerId = 'A1B2C3D4E5F6G7';
+  const params = { sellerId, marketplaceIds: ['ATVPDKIKX0DER'] };
+  let server: MockSpApiServer;
+
+  beforeEach(async () => {
+    server = new MockSpApiServer({ accessToken: 'token-2', catalog: { [sellerId]: [] } });
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('refreshes a rejected token and retries once', async () => {
+    const endpoint = createTokenEndpoint();
+    const client = server.createClient({ accessTokenProvider: new LwaTokenProvider(credentials, endpoint.transport) });
+
+    expect((await client.searchListingsItems(params)).numberOfResults).toBe(0);
+    expect(server.requests.map(r => [r.headers['x-amz-access-token'], r.status])).toEqual([['token-1', 403], ['token-2', 200]]);
+    expect(endpoint.requests).toHaveLength(2);
+  });
+
+  it('gives up when the refreshed token is rejected too', async () => {
+    const invalidated: Array<string | undefined> = [];
+    const client = server.createClient({
+      accessTokenProvider: {
+        getAccessToken: async () => 'revoked',
+        invalidate: token => { invalidated.push(token); }
+      }
+    });
+
+    const error = await client.searchListingsItems(params).catch((e: unknown) => e);
+    expect((error as SpApiClientError).statusCode).toBe(403);
+    expect(server.requests).toHaveLength(2);
+    expect(invalidated).toEqual(['revoked']);
+  });
+});
@@ -0,0 +1,160 @@
+import { InMemoryCacheStore, ResponseCache } from '../src/cache.js';
+
+describe('ResponseCache', () => {
+  it('gives each caller its own copy of a cached response', async () => {
+    const cache = new ResponseCache();
+    let loads = 0;
+    const load = async () => {
+      loads++;
+      return { items: [{ sku: 'SKU-1' }] };
+    };
+
+    const first = await cache.fetch('key', 60000, 'default', load);
+    first.items.pop();
+    const second = await cache.fetch('key', 60000, 'default', load);
+
+    expect(loads).toBe(1);
+    expect(second.items).toEqual([{ sku: 'SKU-1' }]);
+  });
+
+  it('gives each waiter of a shared request its own copy', async () => {
+    const cache = new ResponseCache();
+    let resolve!: (value: { items: string[] }) => void;
+    const response = new Promise<{ items: string[] }>(r => { resolve = r; });
+    let loads = 0;
+    const load = () => {
+      loads++;
+      return response;
+    };
+
+    const pending = [cache.fetch('key', 60000, 'default', load), cache.fetch('key', 60000, 'default', load)];
+    resolve({ items: ['SKU-1'] });
+    const [first, second] = await Promise.all(pending);
+    first!.items.push('SKU-2');
+
+    expect(loads).toBe(1);
+    expect(second!.items).toEqual(['SKU-1']);
+    expect((await cache.fetch('key', 60000, 'default', load)).items).toEqual(['SKU-1']);
+  });
+
+  it('shares one request between identical callers', async () => {
+    const cache = new ResponseCache();
+    let loads = 0;
+    const load = async () => {
+      loads++;
+      return { loads };
+    };
+
+    const results = await Promise.all([1, 2, 3].map(() => cache.fetch('key', 60000, 'refresh', load)));
+    expect(loads).toBe(1);
+    expect(results).toEqual([{ loads: 1 }, { loads: 1 }, { loads: 1 }]);
+  });
+
+  describe('aborting', () => {
+    /**
+     * Creates a load function that settles only when its signal is aborted, recording each signal
+     */
+    function createHangingLoad(signals: (AbortSignal | undefined)[]) {
+      return (signal: AbortSignal | undefined) => new Promise<never>((_resolve, reject) => {
+        signals.push(signal);
+        signal?.addEventListener('abort', () => reject(signal.reason), { once: true });
+      });
+    }
+
+    it('keeps the request going while another waiter remains', async () => {
+      const cache = new ResponseCache();
+      let resolve!: (value: string) => void;
+      const response = new Promise<string>(r => { resolve = r; });
+      const signals: (AbortSignal | undefined)[] = [];
+      const load = (signal: AbortSignal | undefined) => {
+        signals.push(signal);
+        return response;
+      };
+      const first = new AbortController();
+
+      const aborted = cache.fetch('key', 60000, 'default', load, first.signal);
+      const kept = cache.fetch('key', 60000, 'default', load, new AbortController().signal);
+      await new Promise(r => setImmediate(r));
+      first.abort(new Error('first gave up'));
+      resolve('value');
+
+      await expect(aborted).rejects.toThrow('first gave up');
+      await expect(kept).resolves.toBe('value');
+      expect(signals).toHaveLength(1);
+      expect(signals[0]?.aborted).toBe(false);
+    });
+
+    it('aborts the request once every waiter has aborted', async () => {
+      const cache = new ResponseCache();
+      const signals: (AbortSignal | undefined)[] = [];
+      const load = createHangingLoad(signals);
+      const controllers = [new AbortController(), new AbortController()];
+
+      const waiting = controllers.map(c => cache.fetch('key', 60000, 'default', load, c.signal));
+      await new Promise(r => setImmediate(r));
+      controllers.forEach(c => c.abort(new Error('gave up')));
+
+      await Promise.all(waiting.map(w => expect(w).rejects.toThrow('gave up')));
+      expect(signals).toHaveLength(1);
+      expect(signals[0]?.aborted).toBe(true);
+    });
+
+    it('starts a new request for a caller arriving after every waiter aborted', async () => {
+      const cache = new ResponseCache();
+      const signals: (AbortSignal | undefined)[] = [];
+      const hanging = createHangingLoad(signals);
+      const controller = new AbortController();
+
+      const aborted = cache.fetch('key', 60000, 'default', hanging, controller.signal);
+      await new Promise(r => setImmediate(r));
+      controller.abort(new Error('gave up'));
+      await expect(aborted).rejects.toThrow('gave up');
+
+      await expect(cache.fetch('key', 60000, 'default', async () => 'fresh')).resolves.toBe('fresh');
+    });
+  });
+
+  it('loads again once an entry has expired', async () => {
+    const cache = new ResponseCache();
+    let loads = 0;
+    const load = async () => ++loads;
+
+    await cache.fetch('key', 20, 'default', load);
+    expect(await cache.fetch('key', 20, 'default', load)).toBe(1);
+    await new Promise(r => setTimeout(r, 30));
+    expect(await cache.fetch('key', 20, 'default', load)).toBe(2);
+  });
+
+  it('neither reads nor writes the store in bypass mode', async () => {
+    const cache = new ResponseCache();
+    let loads = 0;
+    const load = async () => ++loads;
+
+    await cache.fetch('key', 60000, 'default', load);
+    expect(await cache.fetch('key', 60000, 'bypass', load)).toBe(2);
+    expect(await cache.fetch('key', 60000, 'default', load)).toBe(1);
+  });
+});
+
+describe('InMemoryCacheStore', () => {
+  const entry = (value: string) => ({ value, storedAt: Date.now(), expiresAt: Date.now() + 60000 });
+
+  it('evicts the least recently used entry when full', async () => {
+    const store = new InMemoryCacheStore(2);
+    await store.set('a', entry('A'));
+    await store.set('b', entry('B'));
+    await store.get('a');
+    await store.set('c', entry('C'));
+
+    expect(store.size).toBe(2);
+    expect((await store.get('a'))?.value).toBe('A');
+    expect(await store.get('b')).toBeUndefined();
+    expect((await store.get('c'))?.value).toBe('C');
+  });
+
+  it('does not return expired entries', async () => {
+    const store = new InMemoryCacheStore();
+    await store.set('a', { value: 'A', storedAt: 0, expiresAt: Date.now() - 1 });
+    expect(await store.get('a')).toBeUndefined();
+  });
+});
@@ -0,0 +1,173 @@
+import { CLI_EXIT_CODES, runCli } from '../src/cli.js';
+import { MockSpApiServer } from '../src/mock-server.js';
+import type { ListingItem, TextOutputStream } from '../src/types.js';
+
+const sellerId = 'A1B2C3D4E5F6G7';
+const marketplaceId = 'ATVPDKIKX0DER';
+
+const items: ListingItem[] = ['SKU-1', 'SKU-2', 'SKU-3'].map((sku, i) => ({
+  sku,
+  summaries: [{
+    marketplaceId,
+    productType: 'MUG',
+    status: ['BUYABLE'],
+    createdDate: '2024-01-01T00:00:00Z',
+    lastUpdatedDate: `2024-01-0${i + 1}T00:00:00Z`
+  }]
+}));
+
+function createOutput(): { stream: TextOutputStream; text: () => string } {
+  let text = '';
+  return {
+    stream: {
+      write(chunk: string) {
+        text += chunk;
+        return true;
+      },
+      once() {
+        return this;
+      },
+      off() {
+        return this;
+      }
+    },
+    text: () => text
+  };
+}
+
+describe('runCli', () => {
+  let server: MockSpApiServer;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    server = new MockSpApiServer({ accessToken: 'token', catalog: { [sellerId]: items } });
+    baseUrl = await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  async function run(args: string[], env: Record<string, string> = {}) {
+    const stdout = createOutput();
+    const stderr = createOutput();
+    const code = await runCli(['search', '--seller-id', sellerId, '--marketplace-ids', marketplaceId, ...args], {
+      stdout: stdout.stream,
+      stderr: stderr.stream,
+      env: { SP_LISTINGS_PROFILE_FILE: '/nonexistent/credentials.json', SP_API_ACCESS_TOKEN: 'token', ...env }
+    });
+    return { code, stdout: stdout.text(), stderr: stderr.text() };
+  }
+
+  it('prints every page as a JSON array', async () => {
+    const { code, stdout } = await run(['--base-url', baseUrl, '--format', 'json', '--page-size', '2']);
+    expect(code).toBe(CLI_EXIT_CODES.OK);
+    expect((JSON.parse(stdout) as ListingItem[]).map(item => item.sku)).toEqual(['SKU-3', 'SKU-2', 'SKU-1']);
+  });
+
+  it('prints nothing to stdout when a later page fails', async () => {
+    server.addFault({ type: 'throttle', skip: 1, retryAfterSeconds: 0 });
+
+    const { code, stdout, stderr } = await run(['--base-url', baseUrl, '--format', 'json', '--page-size', '2']);
+    expect(code).toBe(CLI_EXIT_CODES.THROTTLED);
+    expect(stdout).toBe('');
+    expect(stderr).not.toBe('');
+  });
+
+  describe('formats', () => {
+    it('writes CSV with a header row', async () => {
+      const { code, stdout } = await run(['--base-url', baseUrl, '--format', 'csv', '--page-size', '2']);
+      expect(code).toBe(CLI_EXIT_CODES.OK);
+
+      const lines = stdout.trimEnd().split('\r\n');
+      expect(lines[0]).toBe('sku,marketplaceId,asin,productType,conditionType,status,itemName,createdDate,lastUpdatedDate,issueCount');
+      expect(lines.slice(1).map(line => line.split(',')[0])).toEqual(['SKU-3', 'SKU-2', 'SKU-1']);
+      expect(lines[1]).toBe(`SKU-3,${marketplaceId},,MUG,,BUYABLE,,2024-01-01T00:00:00Z,2024-01-03T00:00:00Z,0`);
+    });
+
+    it('writes one JSON item per line as NDJSON', async () => {
+      const { code, stdout } = await run(['--base-url', baseUrl, '--format', 'ndjson']);
+      expect(code).toBe(CLI_EXIT_CODES.OK);
+      expect(stdout.trimEnd().split('\n').map(line => (JSON.parse(line) as ListingItem).sku)).toEqual(['SKU-3', 'SKU-2', 'SKU-1']);
+    });
+
+    it('writes an aligned table by default', async () => {
+      const { code, stdout } = await run(['--base-url', baseUrl]);
+      expect(code).toBe(CLI_EXIT_CODES.OK);
+
+      const lines = stdout.trimEnd().split('\n');
+      expect(lines).toHaveLength(4);
+      expect(lines[0]).toMatch(/^sku +marketplaceId +asin +productType +conditionType +status +itemName +createdDate +lastUpdatedDate +issueCount$/);
+      expect(lines.slice(1).map(line => line.split(/ +/)[0])).toEqual(['SKU-3', 'SKU-2', 'SKU-1']);
+
+      // Every row starts its columns where the header does
+      const column = lines[0]!.indexOf('productType');
+      expect(lines.slice(1).map(line => line.indexOf('MUG'))).toEqual([column, column, column]);
+    });
+
+    it('rejects an unknown format', async () => {
+      const { code, stderr } = await run(['--base-url', baseUrl, '--format', 'xml']);
+      expect(code).toBe(CLI_EXIT_CODES.VALIDATION);
+      expect(stderr).toContain('--format: must be one of');
+    });
+  });
+
+  it('stops after --max-items', async () => {
+    const { code, stdout } = await run(['--base-url', baseUrl, '--format', 'json', '--page-size', '2', '--max-items', '2']);
+    expect(code).toBe(CLI_EXIT_CODES.OK);
+    expect((JSON.parse(stdout) as ListingItem[]).map(item => item.sku)).toEqual(['SKU-3', 'SKU-2']);
+    expect(server.requests).toHaveLength(1);
+  });
+
+  describe('exit codes', () => {
+    it('reports invalid parameters against their flag without sending a request', async () => {
+      const { code, stderr } = await run(['--base-url', baseUrl, '--page-size', '50']);
+      expect(code).toBe(CLI_EXIT_CODES.VALIDATION);
+      expect(stderr).toBe('sp-listings: --page-size must be between 1 and 20 (got "50")\n');
+      expect(server.requests).toHaveLength(0);
+    });
+
+    it('reports a rejected access token', async () => {
+      const { code, stdout, stderr } = await run(['--base-url', baseUrl], { SP_API_ACCESS_TOKEN: 'revoked' });
+      expect(code).toBe(CLI_EXIT_CODES.AUTH);
+      expect(stdout).toBe('');
+      expect(stderr).toContain('403');
+    });
+
+    it('reports missing credentials', async () => {
+      const stderr = createOutput();
+      const code = await runCli(['search', '--seller-id', sellerId, '--marketplace-ids', marketplaceId, '--base-url', baseUrl], {
+        stdout: createOutput().stream,
+        stderr: stderr.stream,
+        env: { SP_LISTINGS_PROFILE_FILE: '/nonexistent/credentials.json' }
+      });
+      expect(code).toBe(CLI_EXIT_CODES.AUTH);
+      expect(stderr.text()).toContain('No credentials found');
+    });
+
+    it('reports server errors once retries run out', async () => {
+      server.addFault({ type: 'server-error', status: 503 });
+
+      const { code, stdout } = await run(['--base-url', baseUrl, '--format', 'ndjson']);
+      expect(code).toBe(CLI_EXIT_CODES.SERVER);
+      expect(stdout).toBe('');
+      expect(server.requests).toHaveLength(5);
+    }, 30000);
+
+    it('reports other API errors as a general error', async () => {
+      const { code, stderr } = await run(['--base-url', baseUrl, '--page-token', 'not-a-token']);
+      expect(code).toBe(CLI_EXIT_CODES.ERROR);
+      expect(stderr).toContain('400');
+    });
+  });
+
+  it.each([
+    [['--region', 'US'], {}, '--region'],
+    [[], { SP_API_REGION: 'na' }, 'SP_API_REGION']
+  ])('rejects an unknown region from %j %j', async (args, env, source) => {
+    const { code, stderr } = await run(args, env);
+    expect(code).toBe(CLI_EXIT_CODES.VALIDATION);
+    expect(stderr).toContain(`${source}: expected one of NA, EU, FE`);
+    expect(server.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,92 @@
+import { AmazonSpApiClient } from '../src/client.js';
+import { MockSpApiServer } from '../src/mock-server.js';
+import type { HttpResponse, HttpTransport } from '../src/types.js';
+
+const params = { sellerId: 'A1B2C3D4E5F6G7', marketplaceIds: ['ATVPDKIKX0DER'] };
+
+/**
+ * A transport answering every request with a search response of the wrong shape
+ */
+const invalidResponseTransport: HttpTransport = {
+  async request<T>(): Promise<HttpResponse<T>> {
+    return { status: 200, headers: {}, data: { numberOfResults: 'many', items: {} } as T };
+  }
+};
+
+describe('AmazonSpApiClient', () => {
+  describe('withConfig', () => {
+    const baseConfig = { baseUrl: 'https://sellingpartnerapi-na.amazon.com', transport: invalidResponseTransport, responseValidation: 'warn' } as const;
+
+    it("reports invalid responses to the new client's onWarning", async () => {
+      const original: string[] = [];
+      const derived: string[] = [];
+      const client = new AmazonSpApiClient({ ...baseConfig, onWarning: warning => { original.push(warning); } });
+
+      await client.withConfig({ onWarning: warning => { derived.push(warning); } }).searchListingsItems(params);
+      expect(original).toEqual([]);
+      expect(derived).toHaveLength(1);
+    });
+
+    it('keeps an explicitly configured onResponseValidationError', async () => {
+      const operations: string[] = [];
+      const warnings: string[] = [];
+      const client = new AmazonSpApiClient({ ...baseConfig, onResponseValidationError: (_error, operation) => { operations.push(operation); } });
+
+      await client.withConfig({ onWarning: warning => { warnings.push(warning); } }).searchListingsItems(params);
+      expect(operations).toEqual(['searchListingsItems']);
+      expect(warnings).toEqual([]);
+    });
+  });
+
+  describe('iteration limits', () => {
+    let server: MockSpApiServer;
+
+    beforeEach(async () => {
+      const summary = { marketplaceId: 'ATVPDKIKX0DER', productType: 'MUG', status: [], createdDate: '2024-01-01T00:00:00Z', lastUpdatedDate: '2024-01-01T00:00:00Z' };
+      server = new MockSpApiServer({ catalog: { [params.sellerId]: ['SKU-1', 'SKU-2', 'SKU-3'].map(sku => ({ sku, summaries: [summary] })) } });
+      await server.start();
+    });
+
+    afterEach(async () => {
+      await server.stop();
+    });
+
+    /**
+     * Collects the SKUs an iteration yields
+     */
+    async function collectSkus(iterable: AsyncIterable<{ sku: string }>): Promise<string[]> {
+      const skus: string[] = [];
+      for await (const item of iterable) {
+        skus.push(item.sku);
+      }
+      return skus;
+    }
+
+    it('stops at maxItems, trimming the last page', async () => {
+      const client = server.createClient();
+      expect(await collectSkus(client.iterateListingsItems({ ...params, pageSize: 2, sortBy: 'sku', sortOrder: 'ASC' }, { maxItems: 3 })))
+        .toEqual(['SKU-1', 'SKU-2', 'SKU-3']);
+      expect(await collectSkus(client.iterateListingsItems({ ...params, pageSize: 2, sortBy: 'sku', sortOrder: 'ASC' }, { maxItems: 1 })))
+        .toEqual(['SKU-1']);
+      expect(server.requests).toHaveLength(3);
+    });
+
+    it('stops at maxPages', async () => {
+      const pages = [];
+      for await (const page of server.createClient().searchListingsItemsPages({ ...params, pageSize: 1 }, { maxPages: 2 })) {
+        pages.push(page);
+      }
+      expect(pages).toHaveLength(2);
+      expect(server.requests).toHaveLength(2);
+    });
+
+    it.each([
+      [{ maxItems: 0 }],
+      [{ maxPages: 0 }],
+      [{ maxItems: -1 }]
+    ])('sends no request for %j', async options => {
+      expect(await collectSkus(server.createClient().iterateListingsItems(params, options))).toEqual([]);
+      expect(server.requests).toHaveLength(0);
+    });
+  });
+});
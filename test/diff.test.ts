@@ -0,0 +1,176 @@
+import { diffListingItems, filterListingChanges } from '../src/diff.js';
+import type { ListingIssue, ListingItem, ListingStatus, Offer } from '../src/types.js';
+
+const us = 'ATVPDKIKX0DER';
+const de = 'A1PA6795UKMFR9';
+
+function makeSummary(marketplaceId: string, status: ListingStatus[] = ['BUYABLE']) {
+  return { marketplaceId, productType: 'MUG', status, createdDate: '2024-01-01T00:00:00Z', lastUpdatedDate: '2024-01-01T00:00:00Z' };
+}
+
+function makeOffer(marketplaceId: string, amount: string, currencyCode = 'USD'): Offer {
+  return { marketplaceId, offerType: 'B2C', price: { currencyCode, amount } };
+}
+
+const issue: ListingIssue = {
+  code: '90220',
+  message: "'brand' is required but not supplied.",
+  severity: 'ERROR',
+  attributeNames: ['brand'],
+  categories: ['MISSING_ATTRIBUTE']
+};
+
+describe('diffListingItems', () => {
+  it('reports added and removed items with their marketplaces', () => {
+    const before: ListingItem[] = [{ sku: 'SKU-1', summaries: [makeSummary(us)] }];
+    const after: ListingItem[] = [{ sku: 'SKU-2', summaries: [makeSummary(us), makeSummary(de)] }];
+
+    expect(diffListingItems(before, after)).toEqual([
+      { kind: 'item-added', sku: 'SKU-2', marketplaceIds: [us, de] },
+      { kind: 'item-removed', sku: 'SKU-1', marketplaceIds: [us] }
+    ]);
+  });
+
+  it('reports status changes per marketplace', () => {
+    const before: ListingItem[] = [{ sku: 'SKU-1', summaries: [makeSummary(us, ['BUYABLE', 'DISCOVERABLE']), makeSummary(de)] }];
+    const after: ListingItem[] = [{ sku: 'SKU-1', summaries: [makeSummary(us, ['DISCOVERABLE']), makeSummary(de)] }];
+
+    expect(diffListingItems(before, after)).toEqual([{
+      kind: 'status',
+      sku: 'SKU-1',
+      marketplaceId: us,
+      before: ['BUYABLE', 'DISCOVERABLE'],
+      after: ['DISCOVERABLE'],
+      added: [],
+      removed: ['BUYABLE']
+    }]);
+  });
+
+  it('reports price changes with their difference', () => {
+    const before: ListingItem[] = [{ sku: 'SKU-1', offers: [makeOffer(us, '19.99'), makeOffer(de, '10.0', 'EUR')] }];
+    const after: ListingItem[] = [{ sku: 'SKU-1', offers: [makeOffer(us, '17.5'), makeOffer(de, '10.00', 'EUR')] }];
+
+    expect(diffListingItems(before, after)).toEqual([{
+      kind: 'price',
+      sku: 'SKU-1',
+      marketplaceId: us,
+      offerType: 'B2C',
+      before: { currencyCode: 'USD', amount: '19.99' },
+      after: { currencyCode: 'USD', amount: '17.5' },
+      difference: '-2.49'
+    }]);
+  });
+
+  it('leaves out the difference when the currency changes or the offer is new', () => {
+    const before: ListingItem[] = [{ sku: 'SKU-1', offers: [makeOffer(us, '10.00')] }];
+    const after: ListingItem[] = [{ sku: 'SKU-1', offers: [makeOffer(us, '9.00', 'CAD'), makeOffer(de, '8.00', 'EUR')] }];
+
+    const changes = filterListingChanges(diffListingItems(before, after), ['price']);
+    expect(changes.map(change => [change.marketplaceId, change.difference])).toEqual([[us, undefined], [de, undefined]]);
+    expect(changes[1]).not.toHaveProperty('before');
+  });
+
+  it('reports points changes', () => {
+    const before: ListingItem[] = [{ sku: 'SKU-1', offers: [{ ...makeOffer(us, '10.00'), points: { pointsNumber: 10 } }] }];
+    const after: ListingItem[] = [{ sku: 'SKU-1', offers: [makeOffer(us, '10.00')] }];
+
+    expect(diffListingItems(before, after)).toEqual([
+      { kind: 'points', sku: 'SKU-1', marketplaceId: us, offerType: 'B2C', before: { pointsNumber: 10 } }
+    ]);
+  });
+
+  it('reports fulfillment quantity changes per channel', () => {
+    const before: ListingItem[] = [{ sku: 'SKU-1', fulfillmentAvailability: [{ fulfillmentChannelCode: 'DEFAULT', quantity: 5 }] }];
+    const after: ListingItem[] = [{
+      sku: 'SKU-1',
+      fulfillmentAvailability: [{ fulfillmentChannelCode: 'DEFAULT', quantity: 3 }, { fulfillmentChannelCode: 'AMAZON_NA', quantity: 7 }]
+    }];
+
+    expect(diffListingItems(before, after)).toEqual([
+      { kind: 'fulfillment-quantity', sku: 'SKU-1', fulfillmentChannelCode: 'DEFAULT', before: 5, after: 3 },
+      { kind: 'fulfillment-quantity', sku: 'SKU-1', fulfillmentChannelCode: 'AMAZON_NA', after: 7 }
+    ]);
+  });
+
+  it('reports added and resolved issues, ignoring message changes', () => {
+    const other: ListingIssue = { ...issue, code: '8541', attributeNames: ['item_name'] };
+    const before: ListingItem[] = [{ sku: 'SKU-1', issues: [issue] }];
+    const after: ListingItem[] = [{ sku: 'SKU-1', issues: [other] }];
+
+    expect(diffListingItems(before, after)).toEqual([
+      { kind: 'issue-added', sku: 'SKU-1', issue: other },
+      { kind: 'issue-resolved', sku: 'SKU-1', issue }
+    ]);
+    expect(diffListingItems(before, [{ sku: 'SKU-1', issues: [{ ...issue, message: 'Reworded' }] }])).toEqual([]);
+  });
+
+  it('reports attribute changes, skipping ignored attributes', () => {
+    const before: ListingItem[] = [{ sku: 'SKU-1', attributes: { item_name: [{ value: 'Mug' }], color: [{ value: 'Red' }] } }];
+    const after: ListingItem[] = [{ sku: 'SKU-1', attributes: { item_name: [{ value: 'Big Mug' }], color: [{ value: 'Blue' }] } }];
+
+    expect(diffListingItems(before, after, { ignoreAttributes: ['color'] })).toEqual([
+      { kind: 'attribute', sku: 'SKU-1', attribute: 'item_name', before: [{ value: 'Mug' }], after: [{ value: 'Big Mug' }] }
+    ]);
+  });
+
+  it('only compares data included in both snapshots', () => {
+    const before: ListingItem[] = [{ sku: 'SKU-1', summaries: [makeSummary(us)], offers: [makeOffer(us, '10.00')] }];
+    const after: ListingItem[] = [{ sku: 'SKU-1', summaries: [makeSummary(us, [])], issues: [issue], attributes: { color: [] } }];
+
+    expect(diffListingItems(before, after).map(change => change.kind)).toEqual(['status']);
+  });
+
+  describe('snapshots with a SKU per marketplace', () => {
+    it('combines the occurrences of a SKU', () => {
+      const before: ListingItem[] = [
+        { sku: 'SKU-1', summaries: [makeSummary(us)], offers: [makeOffer(us, '10.00')] },
+        { sku: 'SKU-1', summaries: [makeSummary(de)], offers: [makeOffer(de, '9.00', 'EUR')] }
+      ];
+      const after: ListingItem[] = [
+        { sku: 'SKU-1', summaries: [makeSummary(us)], offers: [makeOffer(us, '10.00')] },
+        { sku: 'SKU-1', summaries: [makeSummary(de, [])], offers: [makeOffer(de, '8.00', 'EUR')] }
+      ];
+
+      expect(diffListingItems(before, after).map(change => [change.kind, 'marketplaceId' in change ? change.marketplaceId : undefined]))
+        .toEqual([['status', de], ['price', de]]);
+    });
+
+    it('reports nothing when only the order of the occurrences changes', () => {
+      const items: ListingItem[] = [
+        { sku: 'SKU-1', summaries: [makeSummary(us)], attributes: { item_name: [{ value: 'Mug', marketplace_id: us }] } },
+        { sku: 'SKU-1', summaries: [makeSummary(de)], attributes: { item_name: [{ value: 'Tasse', marketplace_id: de }] } }
+      ];
+
+      expect(diffListingItems(items, [...items].reverse())).toEqual([]);
+    });
+
+    it('keeps the last occurrence for the same marketplace', () => {
+      const before: ListingItem[] = [{ sku: 'SKU-1', offers: [makeOffer(us, '10.00')], summaries: [makeSummary(us)] }];
+      const after: ListingItem[] = [
+        { sku: 'SKU-1', offers: [makeOffer(us, '12.00')], summaries: [makeSummary(us)] },
+        { sku: 'SKU-1', offers: [makeOffer(us, '11.00')], summaries: [makeSummary(us)] }
+      ];
+
+      expect(filterListingChanges(diffListingItems(before, after), ['price']).map(change => change.difference)).toEqual(['1.00']);
+    });
+  });
+});
+
+describe('filterListingChanges', () => {
+  it('keeps the changes of the given kinds in order', () => {
+    const before: ListingItem[] = [
+      { sku: 'SKU-1', summaries: [makeSummary(us)], offers: [makeOffer(us, '10.00')] },
+      { sku: 'SKU-2', summaries: [makeSummary(us)] }
+    ];
+    const after: ListingItem[] = [
+      { sku: 'SKU-1', summaries: [makeSummary(us, [])], offers: [makeOffer(us, '12.00')] },
+      { sku: 'SKU-3', summaries: [makeSummary(us)] }
+    ];
+    const changes = diffListingItems(before, after);
+
+    expect(filterListingChanges(changes, ['price', 'item-removed']).map(change => [change.kind, change.sku]))
+      .toEqual([['price', 'SKU-1'], ['item-removed', 'SKU-2']]);
+    expect(diffListingItems(before, after, { kinds: ['status'] })).toEqual(filterListingChanges(changes, ['status']));
+    expect(filterListingChanges(changes, [])).toEqual([]);
+  });
+});
@@ -0,0 +1,302 @@
+import { Writable } from 'node:stream';
+import {
+  EXPORT_COLUMNS,
+  flattenListingItem,
+  flattenListingItems,
+  getExportColumns,
+  writeListingItemsCsv,
+  writeListingItemsNdjson,
+  writeText
+} from '../src/export.js';
+import { SpApiValidationError } from '../src/errors.js';
+import type { ListingItem } from '../src/types.js';
+
+const us = 'ATVPDKIKX0DER';
+const de = 'A1PA6795UKMFR9';
+
+const item: ListingItem = {
+  sku: 'SKU-1',
+  summaries: [
+    { marketplaceId: us, asin: 'B000000001', productType: 'MUG', status: ['BUYABLE', 'DISCOVERABLE'], itemName: 'Mug', createdDate: '2024-01-01T00:00:00Z', lastUpdatedDate: '2024-01-02T00:00:00Z' },
+    { marketplaceId: de, asin: 'B000000001', productType: 'MUG', status: [], itemName: 'Tasse', createdDate: '2024-01-01T00:00:00Z', lastUpdatedDate: '2024-01-03T00:00:00Z' }
+  ],
+  offers: [
+    { marketplaceId: us, offerType: 'B2C', price: { currencyCode: 'USD', amount: '19.99' } },
+    { marketplaceId: us, offerType: 'B2B', price: { currencyCode: 'USD', amount: '17.50' }, audience: { audienceType: 'B2B' } },
+    { marketplaceId: de, offerType: 'B2C', price: { currencyCode: 'EUR', amount: '18.00' }, points: { pointsNumber: 5 } }
+  ],
+  fulfillmentAvailability: [{ fulfillmentChannelCode: 'DEFAULT', quantity: 4 }, { fulfillmentChannelCode: 'AMAZON_EU', quantity: 6 }],
+  issues: [
+    {
+      code: '18027',
+      message: 'Brand "Acme", not approved',
+      severity: 'ERROR',
+      categories: ['INVALID_ATTRIBUTE'],
+      attributeNames: ['brand'],
+      enforcements: { actions: [{ action: 'LISTING_SUPPRESSED' }], exemption: { status: 'NOT_EXEMPT' } }
+    },
+    { code: '8541', message: 'Check the title', severity: 'WARNING', categories: [] }
+  ],
+  attributes: {
+    item_name: [{ value: 'Mug', marketplace_id: us, language_tag: 'en_US' }, { value: 'Tasse', marketplace_id: de, language_tag: 'de_DE' }],
+    brand: [{ value: 'Acme' }],
+    color: [{ value: 'Red', marketplace_id: us }],
+    purchasable_offer: [{ currency: 'USD', marketplace_id: us, our_price: [{ schedule: [{ value_with_tax: 19.99 }] }] }]
+  }
+};
+
+/**
+ * Creates a stream collecting everything written to it
+ */
+function createCollectingStream(): { stream: Writable; text: () => string } {
+  let text = '';
+  const stream = new Writable({
+    write(chunk: Buffer, _encoding, callback) {
+      text += chunk.toString();
+      callback();
+    }
+  });
+  return { stream, text: () => text };
+}
+
+/**
+ * Gets the validation failure of a call
+ */
+function getValidationError(call: () => unknown): SpApiValidationError {
+  try {
+    call();
+  } catch (error) {
+    if (error instanceof SpApiValidationError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error('Expected the call to throw');
+}
+
+/**
+ * Creates a stream whose buffer fills after one byte and never empties
+ */
+function createStalledStream(): Writable {
+  return new Writable({ highWaterMark: 1, write() {} });
+}
+
+describe('writeText', () => {
+  it('resolves once a full stream drains', async () => {
+    let done!: () => void;
+    const stream = new Writable({ highWaterMark: 1, write(_chunk, _encoding, callback) { done = callback; } });
+
+    const written = writeText(stream, 'text');
+    done();
+    await expect(written).resolves.toBeUndefined();
+    expect(stream.listenerCount('error')).toBe(0);
+  });
+
+  it('rejects when a full stream fails', async () => {
+    const stream = createStalledStream();
+    const written = writeText(stream, 'text');
+    stream.destroy(new Error('disk full'));
+    await expect(written).rejects.toThrow('disk full');
+  });
+
+  it('rejects when a full stream closes', async () => {
+    const stream = createStalledStream();
+    const written = writeText(stream, 'text');
+    stream.destroy();
+    await expect(written).rejects.toThrow('closed before it drained');
+  });
+
+  it('rejects when the stream is already destroyed', async () => {
+    const stream = createStalledStream();
+    stream.destroy();
+    await expect(writeText(stream, 'text')).rejects.toThrow('destroyed');
+  });
+});
+
+describe('writeListingItemsCsv', () => {
+  it('fails instead of hanging when the destination fails while full', async () => {
+    const stream = createStalledStream();
+    const items: ListingItem[] = [{ sku: 'SKU-1', summaries: [] }];
+
+    const exported = writeListingItemsCsv(items, stream);
+    stream.destroy(new Error('broken pipe'));
+    await expect(exported).rejects.toThrow('broken pipe');
+  });
+});
+
+describe('getExportColumns', () => {
+  it('defaults to every column of the shape', () => {
+    expect(getExportColumns()).toEqual(EXPORT_COLUMNS.marketplace);
+    expect(getExportColumns({ shape: 'issue' })).toEqual(EXPORT_COLUMNS.issue);
+  });
+
+  it('appends attribute columns not already selected', () => {
+    expect(getExportColumns({ shape: 'offer', columns: ['sku', 'attributes.brand', 'price'], attributes: ['brand', 'color'] }))
+      .toEqual(['sku', 'attributes.brand', 'price', 'attributes.color']);
+  });
+
+  it('reports every unknown or repeated column', () => {
+    const error = getValidationError(() => getExportColumns({ shape: 'offer', columns: ['sku', 'itemName', 'sku', 'attributes.'] }));
+    expect(error.details.map(detail => [detail.path, detail.rule, detail.message])).toEqual([
+      ['columns[1]', 'any.only', 'column itemName is not a column of the offer shape'],
+      ['columns[2]', 'array.unique', 'column sku is selected more than once'],
+      ['columns[3]', 'any.only', 'column attributes. is not a column of the offer shape']
+    ]);
+  });
+
+  it('rejects an unknown shape', () => {
+    const error = getValidationError(() => getExportColumns({ shape: 'order' as 'offer' }));
+    expect(error.details[0]).toMatchObject({ path: 'shape', message: 'shape must be one of: marketplace, offer, issue' });
+  });
+});
+
+describe('flattenListingItem', () => {
+  it('builds one marketplace row per marketplace', () => {
+    const rows = flattenListingItem(item, { attributes: ['item_name'] });
+
+    expect(rows).toHaveLength(2);
+    expect(Object.keys(rows[0]!)).toEqual([...EXPORT_COLUMNS.marketplace, 'attributes.item_name']);
+    expect(rows[0]).toMatchObject({
+      sku: 'SKU-1',
+      marketplaceId: us,
+      status: ['BUYABLE', 'DISCOVERABLE'],
+      price: '19.99',
+      priceCurrency: 'USD',
+      businessPrice: '17.50',
+      fulfillmentQuantity: 10,
+      fulfillmentChannels: ['DEFAULT', 'AMAZON_EU'],
+      issueCount: 2,
+      errorCount: 1,
+      warningCount: 1,
+      conditionType: null,
+      'attributes.item_name': 'Mug'
+    });
+    expect(rows[1]).toMatchObject({ marketplaceId: de, price: '18.00', businessPrice: null, 'attributes.item_name': 'Tasse' });
+  });
+
+  it('scopes attribute columns to the row marketplace', () => {
+    const rows = flattenListingItem(item, { columns: ['marketplaceId'], attributes: ['brand', 'color', 'purchasable_offer'] });
+
+    expect(rows).toEqual([
+      {
+        marketplaceId: us,
+        'attributes.brand': 'Acme',
+        'attributes.color': 'Red',
+        'attributes.purchasable_offer': JSON.stringify(item.attributes!['purchasable_offer'][0])
+      },
+      { marketplaceId: de, 'attributes.brand': 'Acme', 'attributes.color': null, 'attributes.purchasable_offer': null }
+    ]);
+  });
+
+  it('builds a marketplace row for an item without marketplace data', () => {
+    expect(flattenListingItem({ sku: 'SKU-2' }, { columns: ['sku', 'marketplaceId', 'issueCount'] }))
+      .toEqual([{ sku: 'SKU-2', marketplaceId: null, issueCount: 0 }]);
+  });
+
+  it('builds one offer row per offer', () => {
+    expect(flattenListingItem(item, { shape: 'offer' })).toEqual([
+      { sku: 'SKU-1', marketplaceId: us, asin: 'B000000001', offerType: 'B2C', audience: null, price: '19.99', priceCurrency: 'USD', points: null, pointsValue: null, pointsValueCurrency: null },
+      { sku: 'SKU-1', marketplaceId: us, asin: 'B000000001', offerType: 'B2B', audience: 'B2B', price: '17.50', priceCurrency: 'USD', points: null, pointsValue: null, pointsValueCurrency: null },
+      { sku: 'SKU-1', marketplaceId: de, asin: 'B000000001', offerType: 'B2C', audience: null, price: '18.00', priceCurrency: 'EUR', points: 5, pointsValue: null, pointsValueCurrency: null }
+    ]);
+    expect(flattenListingItem({ sku: 'SKU-2' }, { shape: 'offer' })).toEqual([]);
+  });
+
+  it('builds one issue row per issue', () => {
+    expect(flattenListingItem(item, { shape: 'issue', attributes: ['color'] })).toEqual([
+      {
+        sku: 'SKU-1',
+        code: '18027',
+        severity: 'ERROR',
+        message: 'Brand "Acme", not approved',
+        categories: ['INVALID_ATTRIBUTE'],
+        attributeNames: ['brand'],
+        enforcementActions: ['LISTING_SUPPRESSED'],
+        exemptionStatus: 'NOT_EXEMPT',
+        exemptionExpiryDate: null,
+        suppressing: true,
+        'attributes.color': 'Red'
+      },
+      {
+        sku: 'SKU-1',
+        code: '8541',
+        severity: 'WARNING',
+        message: 'Check the title',
+        categories: [],
+        attributeNames: [],
+        enforcementActions: [],
+        exemptionStatus: null,
+        exemptionExpiryDate: null,
+        suppressing: false,
+        'attributes.color': 'Red'
+      }
+    ]);
+  });
+
+  it('rejects invalid columns before reading any item', () => {
+    let read = false;
+    const items = (function* () {
+      read = true;
+      yield item;
+    })();
+
+    expect(() => flattenListingItems(items, { columns: ['nope'] })).toThrow(SpApiValidationError);
+    expect(read).toBe(false);
+  });
+});
+
+describe('writeListingItemsCsv', () => {
+  it('writes a header and one quoted row per marketplace', async () => {
+    const output = createCollectingStream();
+    const result = await writeListingItemsCsv([item, { sku: 'SKU-2' }], output.stream, {
+      columns: ['sku', 'marketplaceId', 'status', 'price'],
+      attributes: ['item_name']
+    });
+
+    expect(result).toEqual({ columns: ['sku', 'marketplaceId', 'status', 'price', 'attributes.item_name'], itemCount: 2, rowCount: 3 });
+    expect(output.text()).toBe([
+      'sku,marketplaceId,status,price,attributes.item_name',
+      `SKU-1,${us},BUYABLE;DISCOVERABLE,19.99,Mug`,
+      `SKU-1,${de},,18.00,Tasse`,
+      'SKU-2,,,,',
+      ''
+    ].join('\r\n'));
+  });
+
+  it('quotes fields with commas and quotes', async () => {
+    const output = createCollectingStream();
+    await writeListingItemsCsv([item], output.stream, { shape: 'issue', columns: ['code', 'message'] });
+    expect(output.text().split('\r\n')[1]).toBe('18027,"Brand ""Acme"", not approved"');
+  });
+
+  it('writes only the header when there are no items', async () => {
+    const output = createCollectingStream();
+    expect(await writeListingItemsCsv([], output.stream, { shape: 'offer', columns: ['sku', 'price'] }))
+      .toEqual({ columns: ['sku', 'price'], itemCount: 0, rowCount: 0 });
+    expect(output.text()).toBe('sku,price\r\n');
+  });
+});
+
+describe('writeListingItemsNdjson', () => {
+  it('writes one row object per line with every column', async () => {
+    const output = createCollectingStream();
+    async function* read() {
+      yield item;
+    }
+
+    const result = await writeListingItemsNdjson(read(), output.stream, { shape: 'offer', columns: ['sku', 'price', 'points'] });
+    expect(result).toEqual({ columns: ['sku', 'price', 'points'], itemCount: 1, rowCount: 3 });
+    expect(output.text().split('\n')).toEqual([
+      '{"sku":"SKU-1","price":"19.99","points":null}',
+      '{"sku":"SKU-1","price":"17.50","points":null}',
+      '{"sku":"SKU-1","price":"18.00","points":5}',
+      ''
+    ]);
+  });
+
+  it('writes nothing for invalid columns', async () => {
+    const output = createCollectingStream();
+    await expect(writeListingItemsNdjson([item], output.stream, { columns: ['nope'] })).rejects.toBeInstanceOf(SpApiValidationError);
+    expect(output.text()).toBe('');
+  });
+});
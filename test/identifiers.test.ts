@@ -0,0 +1,156 @@
+import {
+  computeGtinCheckDigit,
+  getIdentifierFormatError,
+  getListingItemIdentifiers,
+  isValidEan,
+  isValidGtin,
+  isValidIdentifier,
+  isValidIsbn,
+  isValidIsbn10,
+  isValidJan,
+  isValidUpc,
+  normalizeIdentifier
+} from '../src/identifiers.js';
+import { MockSpApiServer } from '../src/mock-server.js';
+import type { IdentifierType, ListingItem } from '../src/types.js';
+
+const sellerId = 'A1B2C3D4E5F6G7';
+const marketplaceId = 'ATVPDKIKX0DER';
+
+/**
+ * Replaces the check digit of a code with the next digit, making it invalid
+ */
+function breakCheckDigit(value: string): string {
+  return value.slice(0, -1) + ((Number(value.slice(-1)) + 1) % 10);
+}
+
+describe('computeGtinCheckDigit', () => {
+  it('computes the GS1 check digit', () => {
+    expect(computeGtinCheckDigit('400638133393')).toBe(1);
+    expect(computeGtinCheckDigit('03600029145')).toBe(2);
+  });
+
+  it('rejects bodies with other characters', () => {
+    expect(() => computeGtinCheckDigit('4006-38')).toThrow('GTIN body must contain only digits');
+  });
+});
+
+describe('check digits', () => {
+  it.each([
+    ['GTIN-8', '96385074', isValidGtin],
+    ['GTIN-12', '036000291452', isValidGtin],
+    ['GTIN-13', '4006381333931', isValidGtin],
+    ['GTIN-14', '10036000291459', isValidGtin],
+    ['UPC', '036000291452', isValidUpc],
+    ['EAN-8', '96385074', isValidEan],
+    ['EAN-13', '4006381333931', isValidEan],
+    ['JAN-8', '45123450', isValidJan],
+    ['JAN-13', '4901234567894', isValidJan]
+  ])('accepts a valid %s and rejects a wrong check digit', (_name, value, isValid) => {
+    expect(isValid(value)).toBe(true);
+    expect(isValid(breakCheckDigit(value))).toBe(false);
+  });
+
+  it('ignores hyphens and spaces', () => {
+    expect(isValidUpc('0 36000 29145 2')).toBe(true);
+    expect(isValidEan('400-6381-33393-1')).toBe(true);
+  });
+
+  it('rejects codes of the wrong length for the type', () => {
+    expect(isValidUpc('4006381333931')).toBe(false);
+    expect(isValidEan('036000291452')).toBe(false);
+    expect(isValidGtin('0360002914')).toBe(false);
+  });
+
+  it('requires a 45 or 49 prefix for JAN', () => {
+    expect(isValidJan('4006381333931')).toBe(false);
+  });
+
+  it('checks ISBN-10 including the X check character', () => {
+    expect(isValidIsbn10('080442957X')).toBe(true);
+    expect(isValidIsbn10('0-8044-2957-x')).toBe(true);
+    expect(isValidIsbn10('0804429579')).toBe(false);
+    expect(isValidIsbn10('08044295X7')).toBe(false);
+  });
+
+  it('checks ISBN-13 with a 978 or 979 prefix', () => {
+    expect(isValidIsbn('978-0-306-40615-7')).toBe(true);
+    expect(isValidIsbn('978-0-306-40615-8')).toBe(false);
+    expect(isValidIsbn('4006381333931')).toBe(false);
+  });
+});
+
+describe('normalizeIdentifier', () => {
+  it.each([
+    ['GTIN', '96385074', '00000096385074'],
+    ['GTIN', '0360-0029-1452', '00036000291452'],
+    ['GTIN', '4006381333931', '04006381333931'],
+    ['GTIN', '10036000291459', '10036000291459'],
+    ['UPC', '0 36000 29145 2', '036000291452'],
+    ['ISBN', '0-8044-2957-x', '080442957X'],
+    ['ASIN', ' b08n5wrwnw ', 'B08N5WRWNW'],
+    ['SKU', ' sku-1 ', 'sku-1']
+  ] as Array<[IdentifierType, string, string]>)('normalizes %s %j', (type, value, normalized) => {
+    expect(normalizeIdentifier(type, value)).toBe(normalized);
+  });
+});
+
+describe('getIdentifierFormatError', () => {
+  it.each([
+    ['UPC', '036000291453', 'invalid check digit'],
+    ['UPC', '03600029145', 'expected 12 digits'],
+    ['EAN', '400638133393', 'expected 8 or 13 digits'],
+    ['JAN', '4006381333931', 'expected a 45 or 49 prefix'],
+    ['GTIN', '0360002914521', 'invalid check digit'],
+    ['GTIN', '0360002914', 'expected 8, 12, 13 or 14 digits'],
+    ['ISBN', '0804429579', 'invalid checksum'],
+    ['ASIN', 'A08N5WRWNW', 'expected 10 characters starting with B0, or an ISBN-10']
+  ] as Array<[IdentifierType, string, string]>)('explains an invalid %s %j', (type, value, reason) => {
+    expect(getIdentifierFormatError(type, value)).toBe(reason);
+    expect(isValidIdentifier(type, value)).toBe(false);
+  });
+
+  it('accepts any SKU', () => {
+    expect(getIdentifierFormatError('SKU', 'anything at all')).toBeUndefined();
+  });
+});
+
+describe('identifiers on the wire', () => {
+  const item: ListingItem = {
+    sku: 'SKU-1',
+    attributes: { externally_assigned_product_identifier: [{ type: 'upc', value: '036000291452', marketplace_id: marketplaceId }] }
+  };
+  let server: MockSpApiServer;
+
+  beforeEach(async () => {
+    server = new MockSpApiServer({ catalog: { [sellerId]: [item] } });
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('sends normalized identifiers in the search query', async () => {
+    const page = await server.createClient().searchListingsItems({
+      sellerId,
+      marketplaceIds: [marketplaceId],
+      identifiers: ['0360-0029-1452', '10036000291459'],
+      identifiersType: 'GTIN',
+      includedData: ['attributes']
+    });
+
+    expect(server.requests[0]?.query['identifiers']).toEqual(['00036000291452', '10036000291459']);
+    expect(page.items.map(i => getListingItemIdentifiers(i, 'GTIN'))).toEqual([['00036000291452']]);
+  });
+
+  it('rejects an identifier with a wrong check digit before sending the request', async () => {
+    await expect(server.createClient().searchListingsItems({
+      sellerId,
+      marketplaceIds: [marketplaceId],
+      identifiers: ['036000291453'],
+      identifiersType: 'UPC'
+    })).rejects.toThrow('invalid check digit');
+    expect(server.requests).toHaveLength(0);
+  });
+});
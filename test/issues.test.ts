@@ -0,0 +1,170 @@
+import {
+  createIssueSummaryReport,
+  getListingSuppression,
+  getSuppressedListingItems,
+  groupListingIssues,
+  issueSummaryReportToCsv
+} from '../src/issues.js';
+import type { IssueSeverity, ListingIssue, ListingItem } from '../src/types.js';
+
+const now = '2024-06-01T00:00:00Z';
+
+function makeIssue(code: string, severity: IssueSeverity, categories: string[], attributeNames: string[] = []): ListingIssue {
+  return { code, message: `Issue ${code}`, severity, categories, attributeNames };
+}
+
+function makeSuppressingIssue(code: string, exemption?: { status: string; expiryDate?: string }): ListingIssue {
+  return {
+    ...makeIssue(code, 'ERROR', ['INVALID_ATTRIBUTE']),
+    enforcements: { actions: [{ action: 'LISTING_SUPPRESSED' }, { action: 'NOTIFY' }], ...(exemption ? { exemption } : {}) }
+  };
+}
+
+const items: ListingItem[] = [
+  {
+    sku: 'SKU-1',
+    issues: [
+      makeIssue('8541', 'WARNING', ['INVALID_ATTRIBUTE', 'MISSING_ATTRIBUTE'], ['brand', 'item_name']),
+      makeIssue('90220', 'INFO', ['QUALIFICATION_REQUIRED'])
+    ]
+  },
+  {
+    sku: 'SKU-2',
+    issues: [
+      makeIssue('8541', 'WARNING', ['INVALID_ATTRIBUTE'], ['brand']),
+      makeIssue('18027', 'ERROR', ['MISSING_ATTRIBUTE'], ['brand'])
+    ]
+  },
+  { sku: 'SKU-3', issues: [] }
+];
+
+describe('groupListingIssues', () => {
+  it('groups by code, largest group first', () => {
+    expect(groupListingIssues(items, 'code')).toEqual([
+      { key: '8541', message: 'Issue 8541', issueCount: 2, itemCount: 2, skus: ['SKU-1', 'SKU-2'], severities: { WARNING: 2 } },
+      { key: '18027', message: 'Issue 18027', issueCount: 1, itemCount: 1, skus: ['SKU-2'], severities: { ERROR: 1 } },
+      { key: '90220', message: 'Issue 90220', issueCount: 1, itemCount: 1, skus: ['SKU-1'], severities: { INFO: 1 } }
+    ]);
+  });
+
+  it('counts an issue in each of its categories', () => {
+    expect(groupListingIssues(items, 'category').map(group => [group.key, group.issueCount, group.skus])).toEqual([
+      ['INVALID_ATTRIBUTE', 2, ['SKU-1', 'SKU-2']],
+      ['MISSING_ATTRIBUTE', 2, ['SKU-1', 'SKU-2']],
+      ['QUALIFICATION_REQUIRED', 1, ['SKU-1']]
+    ]);
+  });
+
+  it('counts an issue in each of its attributes, skipping issues without one', () => {
+    expect(groupListingIssues(items, 'attribute').map(group => [group.key, group.issueCount, group.itemCount])).toEqual([
+      ['brand', 3, 2],
+      ['item_name', 1, 1]
+    ]);
+  });
+
+  it('orders severities from most to least severe', () => {
+    const bySeverity = groupListingIssues(items, 'severity');
+    expect(bySeverity.map(group => [group.key, group.issueCount])).toEqual([['ERROR', 1], ['WARNING', 2], ['INFO', 1]]);
+    expect(bySeverity[0]).not.toHaveProperty('message');
+  });
+});
+
+describe('getListingSuppression', () => {
+  it('ignores issues without a suppressing action', () => {
+    expect(getListingSuppression(makeIssue('8541', 'ERROR', []))).toBeUndefined();
+  });
+
+  it('lists the suppressing actions only', () => {
+    expect(getListingSuppression(makeSuppressingIssue('18027'), { now })).toEqual({
+      code: '18027',
+      message: 'Issue 18027',
+      actions: ['LISTING_SUPPRESSED'],
+      exempt: false
+    });
+  });
+
+  it.each([
+    ['EXEMPT', undefined, true],
+    ['EXEMPT_UNTIL_EXPIRY_DATE', '2024-06-02T00:00:00Z', true],
+    ['EXEMPT_UNTIL_EXPIRY_DATE', '2024-06-01T00:00:00Z', false],
+    ['EXEMPT_UNTIL_EXPIRY_DATE', 'not a date', false],
+    ['EXEMPT_UNTIL_EXPIRY_DATE', undefined, false],
+    ['NOT_EXEMPT', '2024-06-02T00:00:00Z', false]
+  ])('treats %s until %s as exempt: %s', (status, expiryDate, exempt) => {
+    const suppression = getListingSuppression(makeSuppressingIssue('18027', { status, ...(expiryDate ? { expiryDate } : {}) }), { now });
+    expect(suppression?.exempt).toBe(exempt);
+    expect(suppression?.exemptionStatus).toBe(status);
+  });
+
+  it('evaluates the expiry against the given time', () => {
+    const issue = makeSuppressingIssue('18027', { status: 'EXEMPT_UNTIL_EXPIRY_DATE', expiryDate: '2024-06-02T00:00:00Z' });
+    expect(getListingSuppression(issue, { now: '2024-06-01T23:59:59Z' })?.exempt).toBe(true);
+    expect(getListingSuppression(issue, { now: new Date('2024-06-02T00:00:01Z') })?.exempt).toBe(false);
+  });
+});
+
+describe('getSuppressedListingItems', () => {
+  it('reports a SKU once with the suppressions of every occurrence', () => {
+    const suppressed = getSuppressedListingItems([
+      { sku: 'SKU-1', issues: [makeSuppressingIssue('18027')] },
+      { sku: 'SKU-2', issues: [makeIssue('8541', 'WARNING', [])] },
+      { sku: 'SKU-1', issues: [makeSuppressingIssue('99300')] }
+    ], { now });
+
+    expect(suppressed).toHaveLength(1);
+    expect(suppressed[0]).toMatchObject({ sku: 'SKU-1', exempt: false });
+    expect(suppressed[0]?.suppressions.map(s => s.code)).toEqual(['18027', '99300']);
+  });
+
+  it('reports the earliest expiry when every suppression is exempt', () => {
+    const [item] = getSuppressedListingItems([{
+      sku: 'SKU-1',
+      issues: [
+        makeSuppressingIssue('18027', { status: 'EXEMPT_UNTIL_EXPIRY_DATE', expiryDate: '2024-07-01T00:00:00Z' }),
+        makeSuppressingIssue('99300', { status: 'EXEMPT_UNTIL_EXPIRY_DATE', expiryDate: '2024-06-15T00:00:00Z' }),
+        makeSuppressingIssue('99301', { status: 'EXEMPT' })
+      ]
+    }], { now });
+
+    expect(item).toMatchObject({ exempt: true, exemptionExpiresAt: '2024-06-15T00:00:00Z' });
+  });
+
+  it('is not exempt when one suppression is not', () => {
+    const [item] = getSuppressedListingItems([{
+      sku: 'SKU-1',
+      issues: [makeSuppressingIssue('18027', { status: 'EXEMPT' }), makeSuppressingIssue('99300')]
+    }], { now });
+
+    expect(item).toEqual(expect.objectContaining({ exempt: false }));
+    expect(item).not.toHaveProperty('exemptionExpiresAt');
+  });
+});
+
+describe('issueSummaryReportToCsv', () => {
+  it('writes one row per group and suppressed item', () => {
+    const report = createIssueSummaryReport([
+      { sku: 'SKU-1', issues: [makeIssue('8541', 'WARNING', ['INVALID_ATTRIBUTE'], ['brand'])] },
+      { sku: 'SKU-2', issues: [makeSuppressingIssue('18027')] }
+    ], { now });
+    const rows = issueSummaryReportToCsv(report).split('\r\n');
+
+    expect(report).toMatchObject({ generatedAt: '2024-06-01T00:00:00.000Z', itemCount: 2, itemsWithIssues: 2, issueCount: 2 });
+    expect(rows[0]).toBe('dimension,key,issueCount,itemCount,errors,warnings,infos,message,skus,actions,exempt,exemptionExpiresAt');
+    expect(rows.map(row => row.split(',')[0])).toEqual([
+      'dimension', 'severity', 'severity', 'code', 'code', 'category', 'attribute', 'suppressed', ''
+    ]);
+    expect(rows[1]).toBe('severity,ERROR,1,1,1,0,0,,SKU-2,,,');
+    expect(rows[7]).toBe('suppressed,SKU-2,1,1,,,,Issue 18027,SKU-2,LISTING_SUPPRESSED,false,');
+  });
+
+  it('quotes fields with commas, quotes and line breaks', () => {
+    const issue: ListingIssue = {
+      ...makeIssue('8541', 'ERROR', []),
+      message: 'The "brand", as supplied,\nis not approved'
+    };
+    const csv = issueSummaryReportToCsv(createIssueSummaryReport([{ sku: 'SKU,1', issues: [issue] }], { now }));
+
+    expect(csv).toContain('code,8541,1,1,1,0,0,"The ""brand"", as supplied,\nis not approved","SKU,1",,,\r\n');
+    expect(csv.endsWith('\r\n')).toBe(true);
+  });
+});
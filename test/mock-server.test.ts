@@ -0,0 +1,236 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { loadMockFixtures, MockSpApiServer, saveMockFixtures } from '../src/mock-server.js';
+import { SpApiClientError, SpApiValidationError } from '../src/errors.js';
+import type { ListingItem, ListingStatus, SearchListingsItemsQueryParams } from '../src/types.js';
+
+const sellerId = 'A1B2C3D4E5F6G7';
+const marketplaceId = 'ATVPDKIKX0DER';
+const search: SearchListingsItemsQueryParams = { sellerId, marketplaceIds: [marketplaceId] };
+
+function makeItem(sku: string, day: number, status: ListingStatus[] = ['BUYABLE', 'DISCOVERABLE']): ListingItem {
+  const date = `2024-01-${String(day).padStart(2, '0')}T00:00:00Z`;
+  return {
+    sku,
+    summaries: [{ marketplaceId, productType: 'MUG', status, createdDate: date, lastUpdatedDate: date }]
+  };
+}
+
+const catalog = [
+  makeItem('SKU-C', 3),
+  makeItem('SKU-A', 1),
+  makeItem('SKU-E', 5, ['DISCOVERABLE']),
+  makeItem('SKU-B', 2),
+  makeItem('SKU-D', 4, [])
+];
+
+function getSkus(items: ListingItem[]): string[] {
+  return items.map(item => item.sku);
+}
+
+async function getError(promise: Promise<unknown>): Promise<unknown> {
+  try {
+    await promise;
+  } catch (error) {
+    return error;
+  }
+  throw new Error('Expected the promise to reject');
+}
+
+describe('MockSpApiServer', () => {
+  let server: MockSpApiServer;
+
+  beforeEach(async () => {
+    server = new MockSpApiServer({ catalog: { [sellerId]: catalog } });
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  describe('search pagination', () => {
+    it('pages through every item with next and previous tokens', async () => {
+      const client = server.createClient();
+      const params = { ...search, sortBy: 'sku', sortOrder: 'ASC', pageSize: 2 } as const;
+
+      const first = await client.searchListingsItems(params);
+      expect(first.numberOfResults).toBe(5);
+      expect(getSkus(first.items)).toEqual(['SKU-A', 'SKU-B']);
+      expect(first.pagination?.previousToken).toBeUndefined();
+
+      const second = await client.searchListingsItems({ ...params, pageToken: first.pagination!.nextToken! });
+      expect(getSkus(second.items)).toEqual(['SKU-C', 'SKU-D']);
+
+      const third = await client.searchListingsItems({ ...params, pageToken: second.pagination!.nextToken! });
+      expect(getSkus(third.items)).toEqual(['SKU-E']);
+      expect(third.pagination?.nextToken).toBeUndefined();
+
+      const back = await client.searchListingsItems({ ...params, pageToken: third.pagination!.previousToken! });
+      expect(getSkus(back.items)).toEqual(['SKU-C', 'SKU-D']);
+    });
+
+    it('rejects an unknown page token', async () => {
+      const error = await getError(server.createClient().searchListingsItems({ ...search, pageToken: 'not-a-token' }));
+      expect(error).toBeInstanceOf(SpApiClientError);
+      expect((error as SpApiClientError).statusCode).toBe(400);
+    });
+  });
+
+  describe('search filters and sorting', () => {
+    it('sorts by last update, newest first, by default', async () => {
+      const page = await server.createClient().searchListingsItems(search);
+      expect(getSkus(page.items)).toEqual(['SKU-E', 'SKU-D', 'SKU-C', 'SKU-B', 'SKU-A']);
+    });
+
+    it('sorts by the requested field and order', async () => {
+      const client = server.createClient();
+      expect(getSkus((await client.searchListingsItems({ ...search, sortBy: 'sku', sortOrder: 'DESC' })).items))
+        .toEqual(['SKU-E', 'SKU-D', 'SKU-C', 'SKU-B', 'SKU-A']);
+      expect(getSkus((await client.searchListingsItems({ ...search, sortBy: 'createdDate', sortOrder: 'ASC' })).items))
+        .toEqual(['SKU-A', 'SKU-B', 'SKU-C', 'SKU-D', 'SKU-E']);
+    });
+
+    it('filters by status', async () => {
+      const client = server.createClient();
+      const params = { ...search, sortBy: 'sku', sortOrder: 'ASC' } as const;
+      expect(getSkus((await client.searchListingsItems({ ...params, withStatus: ['BUYABLE'] })).items))
+        .toEqual(['SKU-A', 'SKU-B', 'SKU-C']);
+      expect(getSkus((await client.searchListingsItems({ ...params, withoutStatus: ['DISCOVERABLE'] })).items))
+        .toEqual(['SKU-D']);
+    });
+
+    it('filters by date range, inclusively', async () => {
+      const page = await server.createClient().searchListingsItems({
+        ...search,
+        sortBy: 'sku',
+        sortOrder: 'ASC',
+        createdAfter: '2024-01-02T00:00:00Z',
+        lastUpdatedBefore: '2024-01-04T00:00:00Z'
+      });
+      expect(getSkus(page.items)).toEqual(['SKU-B', 'SKU-C', 'SKU-D']);
+    });
+
+    it('filters by identifiers', async () => {
+      const page = await server.createClient().searchListingsItems({ ...search, identifiers: ['SKU-B', 'SKU-X'], identifiersType: 'SKU' });
+      expect(getSkus(page.items)).toEqual(['SKU-B']);
+    });
+
+    it('reports every invalid parameter before sending a request', async () => {
+      const error = await getError(server.createClient().searchListingsItems({
+        ...search,
+        pageSize: 50,
+        createdAfter: '2024-05-01T00:00:00Z',
+        createdBefore: '2024-01-01T00:00:00Z'
+      }));
+
+      expect(error).toBeInstanceOf(SpApiValidationError);
+      expect((error as SpApiValidationError).details.map(d => d.path)).toEqual(['pageSize', 'createdBefore']);
+      expect(server.requests).toHaveLength(0);
+    });
+  });
+
+  describe('faults', () => {
+    const retry = { maxAttempts: 2, baseDelayMs: 1, maxDelayMs: 10 };
+
+    it('throttles, capping the Retry-After delay at the retry policy', async () => {
+      server.addFault({ type: 'throttle', operation: 'searchListingsItems', times: 1, retryAfterSeconds: 3600 });
+
+      const page = await server.createClient({ retry }).searchListingsItems(search);
+      expect(page.numberOfResults).toBe(5);
+      expect(server.requests.map(r => [r.status, r.fault])).toEqual([[429, 'throttle'], [200, undefined]]);
+    });
+
+    it('fails with a server error once retries run out', async () => {
+      server.addFault({ type: 'server-error', status: 503 });
+
+      const error = await getError(server.createClient({ retry }).searchListingsItems(search));
+      expect(error).toBeInstanceOf(SpApiClientError);
+      expect((error as SpApiClientError).statusCode).toBe(503);
+      expect(server.requests).toHaveLength(2);
+    });
+
+    it('rejects authorization without retrying', async () => {
+      server.addFault({ type: 'auth', sellerId });
+
+      const error = await getError(server.createClient({ retry }).searchListingsItems(search));
+      expect((error as SpApiClientError).statusCode).toBe(403);
+      expect(server.requests).toHaveLength(1);
+    });
+
+    it('delays responses', async () => {
+      server.addFault({ type: 'delay', delayMs: 200, times: 1 });
+
+      const start = Date.now();
+      const page = await server.createClient().searchListingsItems(search);
+      expect(Date.now() - start).toBeGreaterThanOrEqual(190);
+      expect(page.numberOfResults).toBe(5);
+      expect(server.requests[0]?.fault).toBe('delay');
+    });
+
+    it('skips matching requests before applying a fault', async () => {
+      server.addFault({ type: 'server-error', operation: 'getListingsItem', skip: 1, times: 1 });
+      const client = server.createClient({ retry: { maxAttempts: 1 } });
+      const params = { sellerId, sku: 'SKU-A', marketplaceIds: [marketplaceId] };
+
+      await client.searchListingsItems(search);
+      await client.getListingsItem(params);
+      await expect(client.getListingsItem(params)).rejects.toBeInstanceOf(SpApiClientError);
+      await client.getListingsItem(params);
+      expect(server.requests.map(r => r.status)).toEqual([200, 200, 500, 200]);
+    });
+  });
+
+  describe('record and replay', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'mock-server-'));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('replays recorded responses without the upstream server', async () => {
+      const recorder = new MockSpApiServer({ mode: 'record', upstream: await server.start() });
+      await recorder.start();
+      const params: SearchListingsItemsQueryParams = {
+        ...search,
+        sortBy: 'sku',
+        sortOrder: 'ASC',
+        pageSize: 2,
+        includedData: ['summaries', 'issues']
+      };
+      let recorded;
+      try {
+        recorded = await recorder.createClient().searchListingsItems(params);
+        await getError(recorder.createClient().getListingsItem({ sellerId, sku: 'SKU-X', marketplaceIds: [marketplaceId] }));
+      } finally {
+        await recorder.stop();
+      }
+      expect(recorder.fixtures.map(f => f.status)).toEqual([200, 404]);
+
+      const file = join(directory, 'fixtures.json');
+      await saveMockFixtures(file, recorder.fixtures);
+      await server.stop();
+
+      const replay = new MockSpApiServer({ mode: 'replay', fixtures: await loadMockFixtures(file) });
+      await replay.start();
+      try {
+        const client = replay.createClient();
+        // Parameters in another order match the same fixture
+        expect(await client.searchListingsItems({ ...params, includedData: ['issues', 'summaries'] })).toEqual(recorded);
+
+        const notFound = await getError(client.getListingsItem({ sellerId, sku: 'SKU-X', marketplaceIds: [marketplaceId] }));
+        expect((notFound as SpApiClientError).statusCode).toBe(404);
+
+        const missing = await getError(client.searchListingsItems({ ...params, pageSize: 3 }));
+        expect((missing as SpApiClientError).errors[0]?.code).toBe('FixtureNotFound');
+      } finally {
+        await replay.stop();
+      }
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { ProductTypeSchemaValidator, validateListingAttributes } from '../src/schema-validator.js';
+import type { JsonSchema } from '../src/types.js';
+
+const schema: JsonSchema = {
+  $defs: {
+    marketplace_id: { type: 'string', enum: ['ATVPDKIKX0DER'] }
+  },
+  required: ['item_name'],
+  properties: {
+    item_name: {
+      title: 'Item Name',
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['value'],
+        properties: {
+          value: { type: 'string', maxLength: 10 },
+          marketplace_id: { $ref: '#/$defs/marketplace_id' }
+        }
+      }
+    }
+  }
+};
+
+/**
+ * Validates a single `value` attribute against a schema, returning the issue codes
+ */
+function getCodes(valueSchema: JsonSchema, value: unknown): string[] {
+  return validateListingAttributes({ properties: { value: valueSchema } }, { value }).map(issue => issue.code);
+}
+
+describe('ProductTypeSchemaValidator', () => {
+  const validator = new ProductTypeSchemaValidator(schema);
+
+  it('accepts valid attributes', () => {
+    expect(validator.validate({ item_name: [{ value: 'Mug', marketplace_id: 'ATVPDKIKX0DER' }] })).toEqual([]);
+    expect(validator.isValid({ item_name: [{ value: 'Mug' }] })).toBe(true);
+  });
+
+  describe('failures', () => {
+    it('reports a missing attribute', () => {
+      expect(validator.validate({})).toEqual([{
+        code: 'SCHEMA_REQUIRED',
+        message: "'Item Name' is required but not supplied.",
+        severity: 'ERROR',
+        categories: ['MISSING_ATTRIBUTE'],
+        attributeNames: ['item_name']
+      }]);
+    });
+
+    it('skips missing top-level attributes only when asked', () => {
+      expect(validator.validate({}, { checkRequired: false })).toEqual([]);
+      expect(validator.validate({ item_name: [{}] }, { checkRequired: false }).map(issue => issue.message))
+        .toEqual(["'value' (item_name[0].value) is required but not supplied."]);
+    });
+
+    it('locates failures inside an attribute', () => {
+      expect(validator.validate({ item_name: [{ value: 'A very long name' }] })).toEqual([{
+        code: 'SCHEMA_MAX_LENGTH',
+        message: "'Item Name' (item_name[0].value) must be at most 10 characters.",
+        severity: 'ERROR',
+        categories: ['INVALID_ATTRIBUTE'],
+        attributeNames: ['item_name']
+      }]);
+    });
+
+    it('stops at a type mismatch', () => {
+      expect(validator.validate({ item_name: 'Mug' }).map(issue => issue.message))
+        .toEqual(["'Item Name' must be of type array."]);
+    });
+  });
+
+  describe('$ref', () => {
+    it('validates against the referenced schema', () => {
+      expect(validator.validate({ item_name: [{ value: 'Mug', marketplace_id: 'A1PA6795UKMFR9' }] }).map(issue => issue.message))
+        .toEqual(["'Item Name' (item_name[0].marketplace_id) must be one of the following values: \"ATVPDKIKX0DER\"."]);
+    });
+
+    it('ignores references it cannot resolve', () => {
+      expect(getCodes({ $ref: '#/$defs/missing' }, 'anything')).toEqual([]);
+      expect(getCodes({ $ref: 'https://example.com/schema.json' }, 'anything')).toEqual([]);
+    });
+  });
+
+  describe('combinators', () => {
+    it('reports every failing allOf subschema', () => {
+      expect(getCodes({ allOf: [{ minLength: 5 }, { pattern: '^[0-9]+$' }] }, 'abc'))
+        .toEqual(['SCHEMA_MIN_LENGTH', 'SCHEMA_PATTERN']);
+    });
+
+    it('requires anyOf to match at least one subschema', () => {
+      const anyOf: JsonSchema = { anyOf: [{ type: 'string' }, { type: 'number' }] };
+      expect(getCodes(anyOf, 5)).toEqual([]);
+      expect(getCodes(anyOf, true)).toEqual(['SCHEMA_ANY_OF']);
+    });
+
+    it('requires oneOf to match exactly one subschema', () => {
+      const oneOf: JsonSchema = { oneOf: [{ type: 'number' }, { type: 'integer' }] };
+      expect(getCodes(oneOf, 1.5)).toEqual([]);
+      expect(validateListingAttributes({ properties: { value: oneOf } }, { value: 1 }).map(issue => issue.message))
+        .toEqual(["'value' matches more than one of the allowed formats."]);
+      expect(validateListingAttributes({ properties: { value: oneOf } }, { value: 'one' }).map(issue => issue.message))
+        .toEqual(["'value' does not match any of the allowed formats."]);
+    });
+
+    it('applies the then or else branch of a condition', () => {
+      const conditional: JsonSchema = {
+        type: 'object',
+        if: { properties: { unit: { const: 'kilograms' } } },
+        then: { properties: { value: { maximum: 100 } } },
+        else: { properties: { value: { maximum: 220 } } }
+      };
+      expect(getCodes(conditional, { unit: 'kilograms', value: 150 })).toEqual(['SCHEMA_MAXIMUM']);
+      expect(getCodes(conditional, { unit: 'pounds', value: 150 })).toEqual([]);
+      expect(getCodes(conditional, { unit: 'pounds', value: 250 })).toEqual(['SCHEMA_MAXIMUM']);
+    });
+
+    it('reports the required attributes of a conditional branch', () => {
+      const conditional: JsonSchema = {
+        properties: { batteries_required: {}, battery: {} },
+        if: { properties: { batteries_required: { const: true } }, required: ['batteries_required'] },
+        then: { required: ['battery'] }
+      };
+      expect(validateListingAttributes(conditional, { batteries_required: true }).map(issue => issue.attributeNames))
+        .toEqual([['battery']]);
+      expect(validateListingAttributes(conditional, { batteries_required: true }, { checkRequired: false })).toEqual([]);
+    });
+  });
+
+  describe('pattern', () => {
+    it('matches strings against the pattern', () => {
+      expect(getCodes({ pattern: '^[A-Z]{3}$' }, 'ABC')).toEqual([]);
+      expect(getCodes({ pattern: '^[A-Z]{3}$' }, 'abc')).toEqual(['SCHEMA_PATTERN']);
+    });
+
+    it('accepts identity escapes that are invalid in Unicode mode', () => {
+      const pattern = '^[A-Z0-9\\-\\_]+$';
+      expect(getCodes({ pattern }, 'AB-12_C')).toEqual([]);
+      expect(getCodes({ pattern }, 'AB 12')).toEqual(['SCHEMA_PATTERN']);
+    });
+
+    it('reports a pattern that does not compile instead of throwing', () => {
+      expect(validateListingAttributes({ properties: { value: { pattern: '([a-z]' } } }, { value: 'abc' })).toEqual([{
+        code: 'SCHEMA_PATTERN',
+        message: "'value' cannot be checked because the schema pattern is not a valid regular expression.",
+        severity: 'ERROR',
+        categories: ['INVALID_ATTRIBUTE'],
+        attributeNames: ['value']
+      }]);
+    });
+  });
+
+  describe('formats', () => {
+    it.each([
+      ['date', '2024-02-01', true],
+      ['date', '2024-13-01', false],
+      ['date', '2024-02-01T00:00:00Z', false],
+      ['date-time', '2024-02-01T10:30:00Z', true],
+      ['date-time', '2024-02-01T10:30:00.123+01:00', true],
+      ['date-time', '2024-02-01T10:30:00', false],
+      ['date-time', '2024-02-01', false],
+      ['email', 'not an email', true]
+    ])('checks %s %j', (format, value, valid) => {
+      expect(getCodes({ type: 'string', format }, value)).toEqual(valid ? [] : ['SCHEMA_FORMAT']);
+    });
+  });
+});
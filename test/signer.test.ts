@@ -0,0 +1,111 @@
+import { SigV4Signer } from '../src/signer.js';
+import type { HttpRequest } from '../src/types.js';
+
+/**
+ * Cases from the AWS Signature Version 4 test suite, which all share these credentials and signing time
+ */
+const credentials = {
+  accessKeyId: 'AKIDEXAMPLE',
+  secretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY',
+  region: 'us-east-1',
+  service: 'service'
+};
+const date = new Date('2015-08-30T12:36:00Z');
+
+function get(url: string): HttpRequest {
+  return { method: 'GET', url, headers: {}, timeout: 30000 };
+}
+
+describe('SigV4Signer', () => {
+  const signer = new SigV4Signer(credentials);
+
+  describe('get-vanilla', () => {
+    const request = get('https://example.amazonaws.com/');
+
+    it('builds the canonical request', async () => {
+      const signed = await signer.sign(request, date);
+      expect(await signer.createCanonicalRequest(signed)).toBe([
+        'GET',
+        '/',
+        '',
+        'host:example.amazonaws.com',
+        'x-amz-date:20150830T123600Z',
+        '',
+        'host;x-amz-date',
+        'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
+      ].join('\n'));
+    });
+
+    it('builds the string to sign', async () => {
+      const signed = await signer.sign(request, date);
+      const canonicalRequest = await signer.createCanonicalRequest(signed);
+      expect(await signer.createStringToSign(canonicalRequest, date)).toBe([
+        'AWS4-HMAC-SHA256',
+        '20150830T123600Z',
+        '20150830/us-east-1/service/aws4_request',
+        'bb579772317eb040ac9ed261061d46c1f17a8133879d6129b6e1c25292927e63'
+      ].join('\n'));
+    });
+
+    it('signs the request', async () => {
+      const signed = await signer.sign(request, date);
+      expect(signed.headers['x-amz-date']).toBe('20150830T123600Z');
+      expect(signed.headers['Authorization']).toBe(
+        'AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request, '
+        + 'SignedHeaders=host;x-amz-date, '
+        + 'Signature=5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31'
+      );
+    });
+  });
+
+  describe('get-vanilla-query-order-key-case', () => {
+    const request = get('https://example.amazonaws.com/?Param2=value2&Param1=value1');
+
+    it('sorts the query parameters in the canonical request', async () => {
+      const signed = await signer.sign(request, date);
+      expect((await signer.createCanonicalRequest(signed)).split('\n')[2]).toBe('Param1=value1&Param2=value2');
+    });
+
+    it('signs the request', async () => {
+      const signed = await signer.sign(request, date);
+      expect(signed.headers['Authorization']).toBe(
+        'AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request, '
+        + 'SignedHeaders=host;x-amz-date, '
+        + 'Signature=b97d918cfa904a5beff61c982a1b6f458b799221646efd99d3219ec94cdf2500'
+      );
+    });
+  });
+
+  describe('get-vanilla-query-order-value', () => {
+    const request = get('https://example.amazonaws.com/?Param1=value2&Param1=Value1');
+
+    it('sorts repeated parameters by value in the canonical request', async () => {
+      const signed = await signer.sign(request, date);
+      expect(await signer.createCanonicalRequest(signed)).toBe([
+        'GET',
+        '/',
+        'Param1=Value1&Param1=value2',
+        'host:example.amazonaws.com',
+        'x-amz-date:20150830T123600Z',
+        '',
+        'host;x-amz-date',
+        'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
+      ].join('\n'));
+    });
+
+    it('signs the request', async () => {
+      const signed = await signer.sign(request, date);
+      expect(signed.headers['Authorization']).toBe(
+        'AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request, '
+        + 'SignedHeaders=host;x-amz-date, '
+        + 'Signature=eedbc4e291e521cf13422ffca22be7d2eb8146eecf653089df300a15b2382bd1'
+      );
+    });
+  });
+
+  it('replaces the headers of a previous signature', async () => {
+    const signed = await signer.sign(get('https://example.amazonaws.com/'), new Date('2020-01-01T00:00:00Z'));
+    const resigned = await signer.sign(signed, date);
+    expect(resigned.headers['Authorization']).toContain('Signature=5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31');
+  });
+});
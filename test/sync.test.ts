@@ -0,0 +1,64 @@
+import { InMemorySyncCheckpointStore, ListingsSync } from '../src/sync.js';
+import { MockSpApiServer } from '../src/mock-server.js';
+import type { AmazonSpApiClient } from '../src/client.js';
+import type { ListingItem, SearchListingsItemsQueryParams, SyncEvent } from '../src/types.js';
+
+const sellerId = 'A1B2C3D4E5F6G7';
+const marketplaceId = 'ATVPDKIKX0DER';
+const params: SearchListingsItemsQueryParams = { sellerId, marketplaceIds: [marketplaceId] };
+
+function makeItem(sku: string, lastUpdatedDate: string): ListingItem {
+  return {
+    sku,
+    summaries: [{ marketplaceId, productType: 'MUG', status: ['BUYABLE'], createdDate: '2024-01-01T00:00:00Z', lastUpdatedDate }]
+  };
+}
+
+describe('ListingsSync', () => {
+  let server: MockSpApiServer;
+
+  beforeEach(async () => {
+    server = new MockSpApiServer();
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('reports only items updated since the previous run', async () => {
+    server.seed(sellerId, [makeItem('SKU-1', '2024-02-01T00:00:00Z'), makeItem('SKU-2', '2024-02-02T00:00:00Z')]);
+    const events: SyncEvent[] = [];
+    const sync = new ListingsSync(server.createClient(), { params, onEvent: event => { events.push(event); } });
+
+    expect(await sync.run()).toMatchObject({ added: 2, changed: 0, highWaterMark: '2024-02-02T00:00:00Z' });
+
+    server.seed(sellerId, [makeItem('SKU-1', '2024-02-03T00:00:00Z')]);
+    expect(await sync.run()).toMatchObject({ added: 0, changed: 1, highWaterMark: '2024-02-03T00:00:00Z' });
+    expect(events.map(event => [event.type, event.item.sku])).toEqual([['added', 'SKU-1'], ['added', 'SKU-2'], ['changed', 'SKU-1']]);
+  });
+
+  it('counts items without a valid lastUpdatedDate instead of reporting them', async () => {
+    // The mock server filters such items out by date, so the search is stubbed
+    const items = [makeItem('SKU-1', '2024-02-01T00:00:00Z'), makeItem('SKU-2', 'unknown')];
+    const client = { searchListingsItems: async () => ({ numberOfResults: items.length, items }) } as unknown as AmazonSpApiClient;
+    const events: SyncEvent[] = [];
+    const sync = new ListingsSync(client, { params, onEvent: event => { events.push(event); } });
+
+    expect(await sync.run()).toMatchObject({ added: 1, undated: 1, highWaterMark: '2024-02-01T00:00:00Z' });
+    expect(events.map(event => event.item.sku)).toEqual(['SKU-1']);
+  });
+
+  it('runs when the high-water mark is ahead of the local clock', async () => {
+    const highWaterMark = new Date(Date.now() + 60000).toISOString();
+    const store = new InMemorySyncCheckpointStore();
+    await store.save('skewed', { highWaterMark, boundarySkus: ['SKU-1'] });
+    server.seed(sellerId, [makeItem('SKU-1', '2024-02-01T00:00:00Z')]);
+
+    const sync = new ListingsSync(server.createClient(), { params, store, key: 'skewed', onEvent: () => {} });
+    expect(await sync.run()).toMatchObject({ pages: 1, added: 0, changed: 0, highWaterMark });
+
+    const [request] = server.requests;
+    expect(Date.parse(request!.query['lastUpdatedAfter']![0]!)).toBeLessThanOrEqual(Date.parse(request!.query['lastUpdatedBefore']![0]!));
+  });
+});
@@ -0,0 +1,56 @@
+import { validateSearchParams, validateSearchParamsOrThrow } from '../src/validators.js';
+
+const base = { sellerId: 'A1B2C3D4E5F6G7', marketplaceIds: ['ATVPDKIKX0DER'] };
+
+function getFailures(params: Parameters<typeof validateSearchParams>[0]): [string, string][] {
+  const { error } = validateSearchParams(params);
+  return (error?.details || []).map(detail => [detail.path.join('.'), detail.type]);
+}
+
+describe('validateSearchParams cross-field rules', () => {
+  it('reports them alongside failures of individual fields', () => {
+    expect(getFailures({ ...base, pageSize: 50, createdAfter: '2024-05-01', createdBefore: '2024-01-01' })).toEqual([
+      ['pageSize', 'number.max'],
+      ['createdBefore', 'date.rangeOrder']
+    ]);
+  });
+
+  it('reports every rule that fails, each against its field', () => {
+    expect(getFailures({ ...base, identifiers: ['B08N5WRWNW'], variationParentSku: 'PARENT' })).toEqual([
+      ['identifiersType', 'custom.identifiersTypeRequired'],
+      ['variationParentSku', 'custom.mutuallyExclusive']
+    ]);
+    expect(getFailures({
+      ...base,
+      createdAfter: '2024-05-01',
+      createdBefore: '2024-01-01',
+      lastUpdatedAfter: '2999-01-01',
+      lastUpdatedBefore: '2024-06-01'
+    })).toEqual([
+      ['createdBefore', 'date.rangeOrder'],
+      ['lastUpdatedBefore', 'date.rangeOrder'],
+      ['lastUpdatedAfter', 'date.future']
+    ]);
+  });
+
+  it('skips fields that failed their own rules', () => {
+    expect(getFailures({ ...base, createdAfter: 'yesterday', createdBefore: '2024-01-01' })).toEqual([
+      ['createdAfter', 'string.isoDate']
+    ]);
+  });
+
+  it('throws one error with every failure', () => {
+    expect(() => validateSearchParamsOrThrow({ ...base, pageSize: 50, lastUpdatedAfter: '2024-05-01', lastUpdatedBefore: '2024-01-01' }))
+      .toThrow(expect.objectContaining({
+        details: [
+          { path: 'pageSize', rule: 'number.max', value: 50, message: 'pageSize must be between 1 and 20' },
+          {
+            path: 'lastUpdatedBefore',
+            rule: 'date.rangeOrder',
+            value: '2024-01-01',
+            message: 'lastUpdatedAfter must not be later than lastUpdatedBefore'
+          }
+        ]
+      }));
+  });
+});